@@ -0,0 +1,181 @@
+/**
+ * Tests for milestones and achievements
+ *
+ * Covers: built-in milestones, idempotent awards, concurrent award
+ * passes, extending the registry
+ */
+
+import {
+  DEFAULT_ACHIEVEMENTS,
+  awardAchievements,
+  createInMemoryAchievementStore,
+  evaluateAchievements,
+  getAchievements,
+} from '../src/achievements';
+import { calculateConsistencyScore } from '../src/scoring';
+import { calculateScoreHistory } from '../src/history';
+import { AchievementDefinition } from '../src/types';
+import { REFERENCE_DATE, dateRange, sessionsOn } from './helpers/fixtures';
+
+function scoreOf(dates: string[]) {
+  return calculateConsistencyScore({
+    sessions: sessionsOn(dates),
+    referenceDate: REFERENCE_DATE,
+  });
+}
+
+const ids = (awards: { achievementId: string }[]) =>
+  awards.map(a => a.achievementId);
+
+describe('Achievements', () => {
+  it('should unlock streak and active-day milestones', () => {
+    const score = scoreOf(dateRange('2024-06-08', '2024-06-30')); // 23 days
+
+    const unlocked = evaluateAchievements({ score });
+
+    expect(unlocked).toEqual([
+      {
+        achievementId: 'first-7-day-streak',
+        unlock: { achievedOn: '2024-06-30', details: { longestStreak: 23 } },
+      },
+      {
+        achievementId: '20-active-days',
+        unlock: { achievedOn: '2024-06-27', details: { activeDays: 23 } },
+      },
+    ]);
+  });
+
+  it('should date a comeback to the first day back', () => {
+    const score = scoreOf(['2024-06-04', '2024-06-05', '2024-06-19']);
+
+    const [comeback] = evaluateAchievements({ score });
+
+    expect(comeback).toEqual({
+      achievementId: 'comeback-after-14-day-gap',
+      unlock: { achievedOn: '2024-06-19', details: { gap: 14 } },
+    });
+    expect(
+      evaluateAchievements({ score: scoreOf(['2024-06-05', '2024-06-18']) })
+    ).toEqual([]);
+  });
+
+  it('should count a comeback from a lapse longer than the window', () => {
+    // The window starts 2024-06-03, after the last May session
+    const score = scoreOf([
+      '2024-05-15',
+      '2024-05-16',
+      '2024-05-20',
+      '2024-06-30',
+    ]);
+
+    expect(evaluateAchievements({ score })).toEqual([]);
+    expect(
+      evaluateAchievements({ score, lastActiveBeforeWindow: '2024-05-20' })
+    ).toEqual([
+      {
+        achievementId: 'comeback-after-14-day-gap',
+        unlock: { achievedOn: '2024-06-30', details: { gap: 41 } },
+      },
+    ]);
+  });
+
+  it('should only count complete calendar months above 70', () => {
+    const sessions = sessionsOn(dateRange('2024-04-01', '2024-06-30'));
+    const history = (start: string) =>
+      calculateScoreHistory({
+        sessions,
+        startDate: new Date(`${start}T12:00:00Z`),
+        endDate: REFERENCE_DATE,
+      });
+    const score = scoreOf([]);
+
+    const [month] = evaluateAchievements(
+      { score, history: history('2024-05-01') },
+      [],
+      { 'first-month-above-70': DEFAULT_ACHIEVEMENTS['first-month-above-70'] }
+    );
+    expect(month.unlock).toMatchObject({
+      achievedOn: '2024-05-31',
+      details: { month: '2024-05' },
+    });
+
+    // History starting May 2nd: May is partial, June counts
+    const [june] = evaluateAchievements({
+      score,
+      history: history('2024-05-02'),
+    });
+    expect(june.unlock.achievedOn).toBe('2024-06-30');
+
+    expect(
+      evaluateAchievements({ score, history: history('2024-05-02') }, [
+        'first-month-above-70',
+      ])
+    ).toEqual([]);
+  });
+
+  it('should grant each achievement exactly once', async () => {
+    const store = createInMemoryAchievementStore();
+    const week = scoreOf(dateRange('2024-06-24', '2024-06-30'));
+
+    const first = await awardAchievements(store, 'u1', { score: week }, {
+      awardedAt: new Date('2024-06-30T18:00:00Z'),
+    });
+    expect(ids(first.newlyAwarded)).toEqual(['first-7-day-streak']);
+
+    const later = scoreOf(dateRange('2024-06-05', '2024-06-30'));
+    const second = await awardAchievements(store, 'u1', { score: later }, {
+      awardedAt: new Date('2024-07-01T18:00:00Z'),
+    });
+
+    expect(ids(second.newlyAwarded)).toEqual(['20-active-days']);
+    expect(second.awards).toEqual([
+      expect.objectContaining({
+        achievementId: '20-active-days',
+        achievedOn: '2024-06-24',
+      }),
+      expect.objectContaining({
+        achievementId: 'first-7-day-streak',
+        awardedAt: '2024-06-30T18:00:00.000Z', // Not re-granted
+        details: { longestStreak: 7 },
+      }),
+    ]);
+    expect(await getAchievements(store, 'u1')).toEqual(second.awards);
+  });
+
+  it('should not double-award when passes run concurrently', async () => {
+    const store = createInMemoryAchievementStore();
+    const score = scoreOf(dateRange('2024-06-24', '2024-06-30'));
+
+    const results = await Promise.all(
+      [1, 2, 3].map(() => awardAchievements(store, 'u1', { score }))
+    );
+
+    expect(results.map(r => r.newlyAwarded.length)).toEqual([1, 0, 0]);
+    expect(await getAchievements(store, 'u1')).toHaveLength(1);
+    expect(await getAchievements(store, 'nobody')).toEqual([]);
+  });
+
+  it('should accept product-defined milestones', async () => {
+    const tenSessions: AchievementDefinition = {
+      description: '10 sessions in a window',
+      evaluate: ({ score }) =>
+        score.metadata.totalSessions >= 10
+          ? { achievedOn: score.chartData[score.chartData.length - 1].date }
+          : null,
+    };
+    const store = createInMemoryAchievementStore();
+
+    const result = await awardAchievements(
+      store,
+      'u1',
+      { score: scoreOf(dateRange('2024-06-03', '2024-06-12')) },
+      { definitions: { ...DEFAULT_ACHIEVEMENTS, 'ten-sessions': tenSessions } }
+    );
+
+    expect(ids(result.newlyAwarded)).toEqual([
+      'first-7-day-streak',
+      'ten-sessions',
+    ]);
+    expect(result.newlyAwarded[1].details).toEqual({});
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Tests for per-activity-type scoring
+ *
+ * Covers: type filter (in every entry point), per-type mini scores,
+ * type-mix summary, repository type filter and its limits
+ */
+
+import { calculateConsistencyScore } from '../src/scoring';
+import {
+  MAX_ACTIVITY_TYPES,
+  describeActivityTypeMix,
+} from '../src/activities';
+import { createInMemorySessionRepository } from '../src/repository';
+import { getConsistencyScoreForUser } from '../src/service';
+import { calculateScoreHistory } from '../src/history';
+import { calculateScoreTrend } from '../src/trend';
+import { buildExportRows } from '../src/export';
+import {
+  applySessionWrite,
+  createInMemoryScoreCacheStore,
+} from '../src/cache';
+import { ScoringConfigError } from '../src/errors';
+import { Session } from '../src/types';
+
+const REFERENCE_DATE = new Date('2024-06-30T18:00:00Z');
+
+/**
+ * Helper: Create a UTC-noon session of a given type on June `day`
+ */
+function sessionOn(day: number, type?: string): Session {
+  const date = `2024-06-${String(day).padStart(2, '0')}`;
+  return {
+    id: `${type ?? 'untyped'}-${date}`,
+    timestamp: new Date(`${date}T12:00:00Z`),
+    durationSec: 1800,
+    ...(type && { type }),
+  };
+}
+
+// Runs on 10 days (ending with a 3-day streak), strength on 6, one yoga day
+const SESSIONS = [
+  ...[3, 6, 9, 12, 15, 18, 21, 28, 29, 30].map(day => sessionOn(day, 'run')),
+  ...[4, 8, 12, 16, 20, 24].map(day => sessionOn(day, 'strength')),
+  sessionOn(25, 'yoga'),
+];
+
+describe('Activity Types', () => {
+  it('should score a single discipline on its own sessions', () => {
+    const runOnly = calculateConsistencyScore({
+      sessions: SESSIONS,
+      referenceDate: REFERENCE_DATE,
+      activityTypes: ['run'],
+    });
+    const expected = calculateConsistencyScore({
+      sessions: SESSIONS.filter(s => s.type === 'run'),
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(runOnly).toEqual(expected);
+    expect(runOnly.metadata.activeDays).toBe(10);
+  });
+
+  it('should apply the type filter in every scoring entry point', async () => {
+    const options = { referenceDate: REFERENCE_DATE, activityTypes: ['run'] };
+    const { score } = calculateConsistencyScore({
+      ...options,
+      sessions: SESSIONS,
+    });
+
+    const [today] = calculateScoreHistory({
+      ...options,
+      sessions: SESSIONS,
+      startDate: REFERENCE_DATE,
+      endDate: REFERENCE_DATE,
+    });
+    expect(today.score).toBe(score);
+
+    expect(
+      calculateScoreTrend({ ...options, sessions: SESSIONS }).current.score
+    ).toBe(score);
+
+    const rows = buildExportRows({
+      ...options,
+      sessions: SESSIONS,
+      startDate: new Date('2024-06-12T12:00:00Z'),
+      endDate: REFERENCE_DATE,
+    });
+    expect(rows[0]).toMatchObject({ date: '2024-06-12', sessionCount: 1 });
+    expect(rows[rows.length - 1].score).toBe(score);
+
+    const store = createInMemoryScoreCacheStore();
+    let cached = 0;
+    for (const session of SESSIONS) {
+      cached = (await applySessionWrite(store, 'u1', session, options)).score;
+    }
+    expect(cached).toBe(score);
+  });
+
+  it('should report per-type active days, streaks and mini scores', () => {
+    const result = calculateConsistencyScore({
+      sessions: SESSIONS,
+      referenceDate: REFERENCE_DATE,
+      groupByActivityType: true,
+    });
+
+    const [run, strength, yoga] = result.typeMix!.types;
+
+    expect(result.typeMix!.types.map(t => t.type)).toEqual([
+      'run',
+      'strength',
+      'yoga',
+    ]);
+    expect(run).toMatchObject({
+      sessions: 10,
+      activeDays: 10,
+      currentStreak: 3,
+      longestStreak: 3,
+    });
+    expect(run.score).toBe(
+      calculateConsistencyScore({
+        sessions: SESSIONS.filter(s => s.type === 'run'),
+        referenceDate: REFERENCE_DATE,
+      }).score
+    );
+    expect(strength).toMatchObject({ activeDays: 6, currentStreak: 0 });
+    expect(yoga.share).toBeCloseTo(1 / 17);
+
+    // The overall score still sees every session
+    expect(result.metadata.activeDays).toBe(16);
+  });
+
+  it('should summarize the type mix', () => {
+    const result = calculateConsistencyScore({
+      sessions: SESSIONS,
+      referenceDate: REFERENCE_DATE,
+      groupByActivityType: true,
+    });
+
+    expect(result.typeMix?.summary).toBe(
+      'You ran 10 days, lifted 6 days and did yoga 1 day'
+    );
+  });
+
+  it('should describe untyped sessions and empty windows', () => {
+    const result = calculateConsistencyScore({
+      sessions: [sessionOn(10, 'run'), sessionOn(12), sessionOn(14)],
+      referenceDate: REFERENCE_DATE,
+      groupByActivityType: true,
+    });
+
+    expect(result.typeMix?.summary).toBe(
+      'You trained 2 days on other activities and ran 1 day'
+    );
+    expect(describeActivityTypeMix([])).toBe('No activity in this window yet');
+  });
+
+  it('should localize the type-mix summary', () => {
+    const result = calculateConsistencyScore({
+      sessions: SESSIONS,
+      referenceDate: REFERENCE_DATE,
+      groupByActivityType: true,
+      locale: 'es',
+    });
+
+    expect(result.typeMix?.summary).toBe(
+      'En este periodo corriste 10 días, levantaste pesas 6 días y hiciste yoga 1 día'
+    );
+    expect(result.typeMix?.messages.map(m => [m.key, m.params])).toEqual([
+      ['typeMix.type', { type: 'run', days: 10 }],
+      ['typeMix.type', { type: 'strength', days: 6 }],
+      ['typeMix.type', { type: 'yoga', days: 1 }],
+    ]);
+    expect(describeActivityTypeMix([], 'es')).toBe(
+      'Aún no hay actividad en este periodo'
+    );
+  });
+
+  it('should filter by type in the repository query', async () => {
+    const repo = createInMemorySessionRepository({
+      sessions: { u1: SESSIONS },
+    });
+
+    const { sessions } = await repo.fetchSessionWindow('u1', {
+      referenceDate: REFERENCE_DATE,
+      activityTypes: ['strength', 'yoga'],
+    });
+    expect(sessions).toHaveLength(7);
+
+    const score = await getConsistencyScoreForUser(repo, 'u1', {
+      referenceDate: REFERENCE_DATE,
+      activityTypes: ['strength'],
+    });
+    expect(score.metadata.activeDays).toBe(6);
+  });
+
+  it('should reject type filters the query cannot run', async () => {
+    const repo = createInMemorySessionRepository({
+      sessions: { u1: SESSIONS },
+    });
+    const tooMany = Array.from(
+      { length: MAX_ACTIVITY_TYPES + 1 },
+      (_, i) => `type-${i}`
+    );
+
+    for (const activityTypes of [[], tooMany]) {
+      await expect(
+        repo.fetchSessionWindow('u1', {
+          referenceDate: REFERENCE_DATE,
+          activityTypes,
+        })
+      ).rejects.toThrow(ScoringConfigError);
+    }
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Tests for the score audit trace
+ *
+ * Covers: session statuses, gaps, streak walk, recency bucket, clamping,
+ * effort blend, JSON round trip and replay (also after the defaults change)
+ */
+
+import { calculateConsistencyScore } from '../src/scoring';
+import { replayScoreTrace } from '../src/audit';
+import { DEFAULT_SCORING_CONFIG, SCORING_VERSION } from '../src/config';
+import { addDays } from '../src/dates';
+import { DEFAULT_STREAK_RULES } from '../src/streaks';
+import { ScoreInput, ScoreTrace, Session } from '../src/types';
+
+const REFERENCE_DATE = new Date('2024-06-30T18:00:00Z');
+
+/**
+ * Helper: Create a session at an ISO timestamp
+ */
+function session(
+  id: string,
+  timestamp: string,
+  extra: Partial<Session> = {}
+): Session {
+  return {
+    id,
+    timestamp: new Date(timestamp),
+    durationSec: 1800,
+    type: 'run',
+    ...extra,
+  };
+}
+
+const INPUT: ScoreInput = {
+  sessions: [
+    session('old', '2024-05-01T12:00:00Z'),
+    session('morning', '2024-06-20T08:00:00Z'),
+    session('evening', '2024-06-20T19:00:00Z'),
+    session('yoga', '2024-06-22T12:00:00Z', { type: 'yoga' }),
+    session('stretch', '2024-06-25T12:00:00Z', { durationSec: 60 }),
+    session('tempo', '2024-06-28T12:00:00Z'),
+    // Saturday evening in UTC, already Sunday in Tokyo
+    session('travel', '2024-06-29T20:00:00Z', { timezone: 'Asia/Tokyo' }),
+  ],
+  referenceDate: REFERENCE_DATE,
+  activityTypes: ['run'],
+  minSessionDurationSec: 300,
+  trace: true,
+};
+
+describe('Score Trace', () => {
+  const result = calculateConsistencyScore(INPUT);
+  const trace = result.trace!;
+
+  it('should only be attached on request', () => {
+    expect(
+      calculateConsistencyScore({ ...INPUT, trace: false }).trace
+    ).toBeUndefined();
+    expect(trace.version).toBe(SCORING_VERSION);
+    expect(trace.config).toEqual(DEFAULT_SCORING_CONFIG);
+  });
+
+  it('should record what happened to every session', () => {
+    expect(trace.sessions).toEqual([
+      { id: 'old', timezone: 'UTC', localDate: '2024-05-01', inWindow: false, status: 'counted' },
+      { id: 'morning', timezone: 'UTC', localDate: '2024-06-20', inWindow: true, status: 'counted' },
+      { id: 'evening', timezone: 'UTC', localDate: '2024-06-20', inWindow: true, status: 'merged' },
+      { id: 'yoga', timezone: 'UTC', localDate: '2024-06-22', inWindow: true, status: 'filtered-type' },
+      { id: 'stretch', timezone: 'UTC', localDate: '2024-06-25', inWindow: true, status: 'too-short' },
+      { id: 'tempo', timezone: 'UTC', localDate: '2024-06-28', inWindow: true, status: 'counted' },
+      { id: 'travel', timezone: 'Asia/Tokyo', localDate: '2024-06-30', inWindow: true, status: 'counted' },
+    ]);
+    expect(trace.windowStart).toBe('2024-06-03');
+    expect(trace.activeDays.map(d => d.date)).toEqual([
+      '2024-06-20',
+      '2024-06-28',
+      '2024-06-30',
+    ]);
+  });
+
+  it('should record gaps, the streak walk and the recency bucket', () => {
+    expect(trace.gaps).toEqual([8, 2]);
+
+    const walk = new Map(trace.streakWalk.map(d => [d.date, d.status]));
+    expect(trace.streakWalk[0]).toEqual({ date: '2024-06-03', status: 'idle' });
+    expect(walk.get('2024-06-19')).toBe('idle');
+    expect(walk.get('2024-06-21')).toBe('missed');
+    expect(walk.get('2024-06-20')).toBe('active');
+    expect(walk.get('2024-06-29')).toBe('missed');
+    expect(walk.get('2024-06-30')).toBe('active');
+
+    expect(trace.recency).toEqual({
+      daysSinceLastSession: 0,
+      bucket: { maxDaysAgo: 1, points: 5 },
+      points: 5,
+    });
+  });
+
+  it('should show grace and frozen days in the streak walk', () => {
+    const { trace: protectedTrace } = calculateConsistencyScore({
+      ...INPUT,
+      referenceDate: new Date('2024-07-01T06:00:00Z'),
+      streak: { freezesPerWindow: 1 },
+    });
+    const walk = new Map(protectedTrace!.streakWalk.map(d => [d.date, d.status]));
+
+    expect(walk.get('2024-06-29')).toBe('frozen');
+    expect(walk.get('2024-07-01')).toBe('grace');
+  });
+
+  it('should show the raw score before rounding and clamping', () => {
+    expect(trace.rawScore).toBeCloseTo(
+      Object.values(trace.breakdown).reduce((s, v) => s + v, 0)
+    );
+    expect(trace.clamped).toBe(false);
+    expect(trace.clampedScore).toBe(result.score);
+
+    // 40 daily sessions: days before the window don't raise the base
+    const daily = Array.from({ length: 40 }, (_, i) =>
+      session(`d${i}`, `${addDays('2024-06-30', -i)}T12:00:00Z`)
+    );
+    const { trace: dense } = calculateConsistencyScore({
+      sessions: daily,
+      referenceDate: REFERENCE_DATE,
+      trace: true,
+    });
+
+    expect(dense!.activeDays).toHaveLength(28);
+    expect(dense!.breakdown.baseScore).toBeCloseTo(60, 5);
+    expect(dense!.rawScore).toBeLessThanOrEqual(100);
+    expect(dense!.clamped).toBe(false);
+  });
+
+  it('should record the effort blend', () => {
+    const blended = calculateConsistencyScore({
+      ...INPUT,
+      effort: { blendWeight: 0.5 },
+    });
+
+    expect(blended.trace!.effortBlend).toEqual({
+      consistencyScore: result.score,
+      effortScore: blended.effort!.score,
+      blendWeight: 0.5,
+    });
+    expect(blended.trace!.score).toBe(blended.score);
+    expect(trace.effortBlend).toBeNull();
+  });
+
+  it('should replay to the same score after a JSON round trip', () => {
+    const parsed: ScoreTrace = JSON.parse(JSON.stringify(trace));
+    const replayed = replayScoreTrace(parsed);
+
+    expect(replayed.score).toBe(result.score);
+    expect(replayed.trace).toEqual(parsed);
+
+    const { trace: _trace, ...withoutTrace } = replayed;
+    const { trace: _original, ...expected } = result;
+    expect(withoutTrace).toEqual(expected);
+  });
+
+  it('should replay with the recorded defaults after they change', () => {
+    const parsed: ScoreTrace = JSON.parse(JSON.stringify(trace));
+    const config = structuredClone(DEFAULT_SCORING_CONFIG);
+    const rules = structuredClone(DEFAULT_STREAK_RULES);
+
+    try {
+      DEFAULT_SCORING_CONFIG.windowDays = 7;
+      DEFAULT_SCORING_CONFIG.weights.base = 70;
+      DEFAULT_SCORING_CONFIG.weights.distribution = 15;
+      DEFAULT_STREAK_RULES.graceToday = false;
+      DEFAULT_STREAK_RULES.freezesPerWindow = 2;
+
+      expect(calculateConsistencyScore(INPUT).score).not.toBe(result.score);
+      expect(replayScoreTrace(parsed).trace).toEqual(parsed);
+    } finally {
+      Object.assign(DEFAULT_SCORING_CONFIG, config);
+      Object.assign(DEFAULT_STREAK_RULES, rules);
+    }
+  });
+
+  it('should pin a defaulted reference date so replays match', () => {
+    const { trace: live } = calculateConsistencyScore({
+      sessions: INPUT.sessions,
+      trace: true,
+    });
+
+    expect(Date.parse(live!.input.referenceDate)).not.toBeNaN();
+    expect(replayScoreTrace(live!).score).toBe(live!.score);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Tests for the incremental score cache (in-memory store)
+ *
+ * Covers: parity with full recomputation, idempotent writes, deletes,
+ * day rollover, timezone change, rebuild from the repository, options key
+ */
+
+import {
+  applySessionDelete,
+  applySessionWrite,
+  createInMemoryScoreCacheStore,
+  getCachedConsistencyScore,
+} from '../src/cache';
+import { calculateConsistencyScore } from '../src/scoring';
+import { WEEKLY_SCORING_CONFIG } from '../src/config';
+import { createInMemorySessionRepository } from '../src/repository';
+import { Session } from '../src/types';
+import { REFERENCE_DATE, sessionOn, sessionsOn } from './helpers/fixtures';
+
+const SESSIONS = sessionsOn([
+  '2024-06-03', '2024-06-10', '2024-06-11', '2024-06-20', '2024-06-30',
+]);
+
+describe('Score Cache', () => {
+  it('should match a full recomputation after incremental writes', async () => {
+    const store = createInMemoryScoreCacheStore();
+
+    for (const session of SESSIONS) {
+      await applySessionWrite(store, 'u1', session, {
+        referenceDate: REFERENCE_DATE,
+      });
+    }
+
+    const cached = await getCachedConsistencyScore(store, 'u1', {
+      referenceDate: REFERENCE_DATE,
+    });
+    const full = calculateConsistencyScore({
+      sessions: SESSIONS,
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(cached).toEqual(full);
+  });
+
+  it('should treat a repeated write of the same session as a no-op', async () => {
+    const store = createInMemoryScoreCacheStore();
+    const options = { referenceDate: REFERENCE_DATE };
+
+    const first = await applySessionWrite(store, 'u1', SESSIONS[0], options);
+    const again = await applySessionWrite(store, 'u1', SESSIONS[0], options);
+
+    expect(again).toEqual(first);
+    expect(again.metadata.totalSessions).toBe(1);
+
+    const doc = await store.read('u1');
+    expect(doc?.days['2024-06-03']).toEqual({
+      date: '2024-06-03',
+      sessionCount: 1,
+      totalDurationSec: 1800,
+    });
+  });
+
+  it('should move a session when its timestamp is edited', async () => {
+    const store = createInMemoryScoreCacheStore();
+    const options = { referenceDate: REFERENCE_DATE };
+
+    await applySessionWrite(store, 'u1', sessionOn('2024-06-10'), options);
+    await applySessionWrite(
+      store,
+      'u1',
+      {
+        ...sessionOn('2024-06-10'),
+        timestamp: new Date('2024-06-12T12:00:00Z'),
+      },
+      options
+    );
+
+    const doc = await store.read('u1');
+    expect(Object.keys(doc!.days)).toEqual(['2024-06-12']);
+  });
+
+  it('should remove deleted sessions and ignore unknown IDs', async () => {
+    const store = createInMemoryScoreCacheStore();
+    const options = { referenceDate: REFERENCE_DATE };
+
+    for (const session of SESSIONS) {
+      await applySessionWrite(store, 'u1', session, options);
+    }
+
+    await applySessionDelete(store, 'u1', 'session-2024-06-30', options);
+    const score = await applySessionDelete(store, 'u1', 'missing', options);
+
+    expect(score).toEqual(
+      calculateConsistencyScore({
+        sessions: SESSIONS.slice(0, 4),
+        referenceDate: REFERENCE_DATE,
+      })
+    );
+  });
+
+  it('should serve the cached score until the reference day rolls over', async () => {
+    const store = createInMemoryScoreCacheStore();
+    const update = jest.spyOn(store, 'update');
+
+    for (const session of SESSIONS) {
+      await applySessionWrite(store, 'u1', session, {
+        referenceDate: REFERENCE_DATE,
+      });
+    }
+    update.mockClear();
+
+    await getCachedConsistencyScore(store, 'u1', {
+      referenceDate: new Date('2024-06-30T23:00:00Z'),
+    });
+    expect(update).not.toHaveBeenCalled();
+
+    // 2024-07-01: the 2024-06-03 session leaves the window
+    const nextDay = new Date('2024-07-01T08:00:00Z');
+    const rolled = await getCachedConsistencyScore(store, 'u1', {
+      referenceDate: nextDay,
+    });
+
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(rolled?.metadata.activeDays).toBe(4);
+    expect(rolled).toEqual(
+      calculateConsistencyScore({
+        sessions: SESSIONS.slice(1),
+        referenceDate: nextDay,
+      })
+    );
+
+    const doc = await store.read('u1');
+    expect(doc?.referenceDay).toBe('2024-07-01');
+    expect(doc?.sessions['session-2024-06-03']).toBeUndefined();
+  });
+
+  it('should rebucket cached sessions when the timezone changes', async () => {
+    const store = createInMemoryScoreCacheStore();
+    const late: Session = {
+      id: 'late',
+      timestamp: new Date('2024-06-20T23:30:00Z'),
+      durationSec: 600,
+    };
+
+    await applySessionWrite(store, 'u1', late, {
+      referenceDate: REFERENCE_DATE,
+    });
+
+    const tokyo = await getCachedConsistencyScore(store, 'u1', {
+      referenceDate: REFERENCE_DATE,
+      timezone: 'Asia/Tokyo',
+    });
+
+    const doc = await store.read('u1');
+    expect(doc?.timezone).toBe('Asia/Tokyo');
+    expect(Object.keys(doc!.days)).toEqual(['2024-06-21']);
+    expect(tokyo?.metadata.activeDays).toBe(1);
+  });
+
+  it('should rebuild a missing document from the repository', async () => {
+    const store = createInMemoryScoreCacheStore();
+    const repository = createInMemorySessionRepository({
+      sessions: { u1: SESSIONS },
+    });
+    const options = { referenceDate: REFERENCE_DATE, repository };
+    const full = calculateConsistencyScore({
+      sessions: SESSIONS,
+      referenceDate: REFERENCE_DATE,
+    });
+
+    // Trigger for the newest session on a user the cache has never seen
+    expect(
+      await applySessionWrite(store, 'u1', SESSIONS[4], options)
+    ).toEqual(full);
+    expect(Object.keys((await store.read('u1'))!.sessions)).toHaveLength(5);
+
+    const fresh = createInMemoryScoreCacheStore();
+    expect(await getCachedConsistencyScore(fresh, 'u1', options)).toEqual(full);
+  });
+
+  it('should not serve a score cached under other options', async () => {
+    const store = createInMemoryScoreCacheStore();
+    const repository = createInMemorySessionRepository({
+      sessions: { u1: SESSIONS },
+    });
+
+    for (const session of SESSIONS) {
+      await applySessionWrite(store, 'u1', session, {
+        referenceDate: REFERENCE_DATE,
+      });
+    }
+
+    const weekly = {
+      referenceDate: REFERENCE_DATE,
+      config: WEEKLY_SCORING_CONFIG,
+    };
+    expect(await getCachedConsistencyScore(store, 'u1', weekly)).toBeNull();
+
+    const rebuilt = await getCachedConsistencyScore(store, 'u1', {
+      ...weekly,
+      repository,
+    });
+    expect(rebuilt).toEqual(
+      calculateConsistencyScore({ ...weekly, sessions: SESSIONS })
+    );
+    expect(rebuilt?.metadata.activeDays).toBe(1);
+  });
+
+  it('should return null for users with no cache document', async () => {
+    const store = createInMemoryScoreCacheStore();
+
+    expect(await getCachedConsistencyScore(store, 'nobody')).toBeNull();
+  });
+});
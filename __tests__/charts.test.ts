@@ -0,0 +1,201 @@
+/**
+ * Tests for calendar chart builders
+ *
+ * Covers: heatmap layout and month labels, month grid padding and week
+ * starts, weekly rollups, intensity levels, timezone bucketing
+ */
+
+import {
+  buildMonthGrid,
+  buildWeeklyRollups,
+  buildYearHeatmap,
+  intensityLevel,
+} from '../src/charts';
+import { ScoringConfigError } from '../src/errors';
+import { CalendarWeek } from '../src/types';
+import { sessionAt } from './helpers/fixtures';
+
+// Thursday 10:00 UTC
+const REFERENCE_DATE = new Date('2024-06-27T10:00:00Z');
+
+const SESSIONS = [
+  sessionAt('2024-06-03T12:00:00Z'),
+  sessionAt('2024-06-18T07:00:00Z', 20),
+  sessionAt('2024-06-18T18:00:00Z', 40),
+  sessionAt('2024-06-25T12:00:00Z'),
+  sessionAt('2024-06-27T02:00:00Z'), // Evening of the 26th in New York
+];
+
+function findDay(weeks: CalendarWeek[], date: string) {
+  return weeks.flatMap(w => w.days).find(d => d.date === date)!;
+}
+
+describe('Year Heatmap', () => {
+  const heatmap = buildYearHeatmap({
+    sessions: SESSIONS,
+    referenceDate: REFERENCE_DATE,
+  });
+
+  it('should lay out 52 Monday-first weeks ending this week', () => {
+    expect(heatmap.weeks).toHaveLength(52);
+    expect(heatmap.weeks.every(w => w.days.length === 7)).toBe(true);
+    expect(heatmap).toMatchObject({
+      startDate: '2023-07-03',
+      endDate: '2024-06-30',
+      activeDays: 4,
+      totalSessions: 5,
+    });
+    expect(
+      heatmap.weeks[51].days.filter(d => d.isFuture).map(d => d.date)
+    ).toEqual(['2024-06-28', '2024-06-29', '2024-06-30']);
+  });
+
+  it('should label the column each month starts in', () => {
+    expect(heatmap.monthStarts).toHaveLength(11);
+    expect(heatmap.monthStarts[0]).toEqual({
+      month: '2023-08',
+      weekIndex: 4,
+    });
+    expect(heatmap.monthStarts[10]).toEqual({
+      month: '2024-06',
+      weekIndex: 47,
+    });
+  });
+
+  it('should bucket days in the user timezone', () => {
+    const newYork = buildYearHeatmap(
+      {
+        sessions: SESSIONS,
+        referenceDate: REFERENCE_DATE,
+        timezone: 'America/New_York',
+        weekStartsOn: 0,
+      },
+      1
+    );
+
+    expect(newYork.weeks[0].weekStart).toBe('2024-06-23');
+    expect(findDay(newYork.weeks, '2024-06-26').sessionCount).toBe(1);
+    expect(findDay(heatmap.weeks, '2024-06-27').sessionCount).toBe(1);
+  });
+});
+
+describe('Month Grid', () => {
+  it('should pad June 2024 to full Monday-first weeks', () => {
+    const grid = buildMonthGrid({
+      sessions: SESSIONS,
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(grid.month).toBe('2024-06');
+    expect(grid.weeks.map(w => w.weekStart)).toEqual([
+      '2024-05-27',
+      '2024-06-03',
+      '2024-06-10',
+      '2024-06-17',
+      '2024-06-24',
+    ]);
+    expect(grid.weeks[0].days.filter(d => d.isPadding)).toHaveLength(5);
+    expect(grid.weeks[4].days.some(d => d.isPadding)).toBe(false);
+    expect(grid).toMatchObject({ activeDays: 4, totalSessions: 5 });
+  });
+
+  it('should follow the configured week start', () => {
+    const grid = buildMonthGrid(
+      { sessions: [], referenceDate: REFERENCE_DATE, weekStartsOn: 0 },
+      '2024-02'
+    );
+
+    expect(grid.weeks).toHaveLength(5);
+    expect(grid.weeks[0].days[0]).toMatchObject({
+      date: '2024-01-28',
+      weekday: 0,
+      isPadding: true,
+    });
+    expect(findDay(grid.weeks, '2024-02-29').isPadding).toBe(false);
+    expect(findDay(grid.weeks, '2024-03-01').isPadding).toBe(true);
+  });
+
+  it('should reject malformed months', () => {
+    expect(() => buildMonthGrid({ sessions: [] }, '2024-13')).toThrow(
+      ScoringConfigError
+    );
+  });
+});
+
+describe('Weekly Rollups', () => {
+  it('should total active days and duration per week', () => {
+    const rollups = buildWeeklyRollups(
+      { sessions: SESSIONS, referenceDate: REFERENCE_DATE },
+      3
+    );
+
+    expect(rollups).toEqual([
+      {
+        weekStart: '2024-06-10',
+        weekEnd: '2024-06-16',
+        activeDays: 0,
+        sessionCount: 0,
+        totalDurationSec: 0,
+        isPartial: false,
+      },
+      {
+        weekStart: '2024-06-17',
+        weekEnd: '2024-06-23',
+        activeDays: 1,
+        sessionCount: 2,
+        totalDurationSec: 3600,
+        isPartial: false,
+      },
+      {
+        weekStart: '2024-06-24',
+        weekEnd: '2024-06-30',
+        activeDays: 2,
+        sessionCount: 2,
+        totalDurationSec: 3600,
+        isPartial: true,
+      },
+    ]);
+  });
+
+  it('should reject a non-positive week count', () => {
+    expect(() => buildWeeklyRollups({ sessions: [] }, 0)).toThrow(
+      ScoringConfigError
+    );
+  });
+});
+
+describe('Intensity Levels', () => {
+  it('should shade by session count', () => {
+    expect(
+      [0, 1, 2, 3, 5].map(n =>
+        intensityLevel({ sessionCount: n, totalDurationSec: 0 })
+      )
+    ).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('should shade by duration, keeping untimed activity visible', () => {
+    const byDuration = { metric: 'totalDurationSec' as const };
+
+    expect(
+      [0, 600, 1800, 3600, 7200].map(sec =>
+        intensityLevel({ sessionCount: 1, totalDurationSec: sec }, byDuration)
+      )
+    ).toEqual([1, 1, 2, 3, 4]);
+
+    const grid = buildMonthGrid({
+      sessions: SESSIONS,
+      referenceDate: REFERENCE_DATE,
+      intensity: { ...byDuration, thresholds: [30 * 60, 60 * 60, 120 * 60] },
+    });
+    expect(findDay(grid.weeks, '2024-06-18').level).toBe(3);
+  });
+
+  it('should reject thresholds that are not ascending', () => {
+    expect(() =>
+      buildMonthGrid({
+        sessions: [],
+        intensity: { thresholds: [3, 2, 4] },
+      })
+    ).toThrow(ScoringConfigError);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Tests for cohort analytics
+ *
+ * Covers: histogram, percentiles, component averages, band shares,
+ * segments, mixed sessions/cached scores, batch results, validation
+ */
+
+import {
+  analyzeCohort,
+  cohortMembersFromBatch,
+  summarizeScores,
+} from '../src/cohort';
+import { calculateConsistencyScore } from '../src/scoring';
+import { createInMemorySessionRepository } from '../src/repository';
+import { ScoringConfigError } from '../src/errors';
+import {
+  CohortMember,
+  ConsistencyScore,
+  ScoreBreakdown,
+  Session,
+} from '../src/types';
+
+const REFERENCE_DATE = new Date('2024-06-30T18:00:00Z');
+
+/**
+ * Helper: UTC-noon sessions on the last `days` days (today included)
+ */
+function dailySessions(days: number): Session[] {
+  return Array.from({ length: days }, (_, i) => ({
+    id: `s${i}`,
+    timestamp: new Date(Date.UTC(2024, 5, 30 - i, 12)),
+    durationSec: 1800,
+  }));
+}
+
+const BASE_SCORE = calculateConsistencyScore({
+  sessions: dailySessions(3),
+  referenceDate: REFERENCE_DATE,
+});
+
+/**
+ * Helper: Cached score with a given value (breakdown from BASE_SCORE)
+ */
+function cached(score: number): ConsistencyScore {
+  return { ...BASE_SCORE, score };
+}
+
+describe('Cohort Analytics', () => {
+  const scores = [5, 15, 35, 45, 55, 72, 88, 100].map(cached);
+
+  it('should build a histogram with 100 in the top bucket', () => {
+    const { histogram, count, mean } = summarizeScores(scores, {
+      histogramBucketSize: 25,
+    });
+
+    expect(count).toBe(8);
+    expect(mean).toBeCloseTo(51.875);
+    expect(histogram).toEqual([
+      { min: 0, max: 25, count: 2 },
+      { min: 25, max: 50, count: 2 },
+      { min: 50, max: 75, count: 2 },
+      { min: 75, max: 100, count: 2 },
+    ]);
+  });
+
+  it('should interpolate percentiles', () => {
+    const { percentiles } = summarizeScores(scores, {
+      percentiles: [0, 50, 90, 100],
+    });
+
+    // Rank 0.9 × 7 = 6.3: 88 + 0.3 × (100 - 88)
+    expect(percentiles).toMatchObject({ p0: 5, p50: 50, p100: 100 });
+    expect(percentiles.p90).toBeCloseTo(91.6);
+  });
+
+  it('should share users by band and average components', () => {
+    const { bands, components } = summarizeScores(scores);
+
+    expect(bands.map(b => [b.label, b.count])).toEqual([
+      ['low', 3],
+      ['building', 2],
+      ['consistent', 3],
+    ]);
+    expect(bands[2]).toMatchObject({ min: 70, max: 100, share: 3 / 8 });
+    for (const [key, value] of Object.entries(BASE_SCORE.breakdown)) {
+      expect(components![key as keyof ScoreBreakdown]).toBeCloseTo(value);
+    }
+  });
+
+  it('should report nulls, not zeros, for an empty group', () => {
+    const empty = summarizeScores([]);
+
+    expect(empty).toMatchObject({
+      count: 0,
+      mean: null,
+      components: null,
+    });
+    expect(empty.percentiles.p50).toBeNull();
+    expect(empty.bands.every(b => b.share === 0)).toBe(true);
+  });
+
+  it('should score sessions, reuse cached scores and compare segments', () => {
+    const members: CohortMember[] = [
+      {
+        userId: 'daily',
+        sessions: dailySessions(28),
+        attributes: { signupMonth: '2024-05' },
+      },
+      {
+        userId: 'cached',
+        score: cached(20),
+        attributes: { signupMonth: '2024-06' },
+      },
+      { userId: 'tokyo', sessions: dailySessions(3), timezone: 'Asia/Tokyo' },
+      { userId: 'no-data' },
+    ];
+
+    const report = analyzeCohort(members, {
+      referenceDate: REFERENCE_DATE,
+      segmentBy: ['signupMonth'],
+    });
+
+    const daily = calculateConsistencyScore({
+      sessions: dailySessions(28),
+      referenceDate: REFERENCE_DATE,
+    }).score;
+    const tokyo = calculateConsistencyScore({
+      sessions: dailySessions(3),
+      referenceDate: REFERENCE_DATE,
+      timezone: 'Asia/Tokyo',
+    }).score;
+
+    expect(report.count).toBe(3);
+    expect(report.skippedUserIds).toEqual(['no-data']);
+    expect(report.mean).toBeCloseTo((daily + 20 + tokyo) / 3);
+
+    expect(
+      report.segments.signupMonth.map(s => [s.value, s.count, s.mean])
+    ).toEqual([
+      ['2024-05', 1, daily],
+      ['2024-06', 1, 20],
+      ['unknown', 1, tokyo],
+    ]);
+    expect(report.segments.signupMonth[1].meanDelta).toBeCloseTo(
+      20 - report.mean!
+    );
+  });
+
+  it('should skip users a batch fetch failed for', async () => {
+    const repo = createInMemorySessionRepository({
+      sessions: { u1: dailySessions(5) },
+    });
+    const batch = await repo.batchFetchSessions(['u1', 'u2'], {
+      referenceDate: REFERENCE_DATE,
+    });
+    batch.users.set('u3', {
+      status: 'failed',
+      sessions: [],
+      reads: 0,
+      attempts: 3,
+      error: new Error('UNAVAILABLE'),
+    });
+
+    const members = cohortMembersFromBatch(batch, {
+      u1: { timezone: 'UTC' },
+    });
+    const report = analyzeCohort(members, { referenceDate: REFERENCE_DATE });
+
+    expect(members[0].attributes).toEqual({ timezone: 'UTC' });
+    expect(report.count).toBe(2); // u2 trained 0 days: a real score
+    expect(report.skippedUserIds).toEqual(['u3']);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => analyzeCohort([], { histogramBucketSize: 0 })).toThrow(
+      ScoringConfigError
+    );
+    expect(() => analyzeCohort([], { percentiles: [101] })).toThrow(
+      ScoringConfigError
+    );
+    expect(() =>
+      analyzeCohort([], { bands: [{ label: 'x', min: 10 }] })
+    ).toThrow(ScoringConfigError);
+  });
+});
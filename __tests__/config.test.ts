@@ -0,0 +1,151 @@
+/**
+ * Tests for configurable scoring (ScoringConfig)
+ *
+ * Covers: window presets, custom weights, validation
+ */
+
+import { calculateConsistencyScore } from '../src/scoring';
+import {
+  DEFAULT_SCORING_CONFIG,
+  QUARTERLY_SCORING_CONFIG,
+  WEEKLY_SCORING_CONFIG,
+  validateScoringConfig,
+} from '../src/config';
+import { ScoringConfigError } from '../src/errors';
+import { Session } from '../src/types';
+
+const REFERENCE_DATE = new Date('2024-06-30T18:00:00Z');
+
+/**
+ * Helper: Create a UTC-noon session N days before the reference date
+ */
+function sessionDaysAgo(daysAgo: number): Session {
+  const timestamp = new Date('2024-06-30T12:00:00Z');
+  timestamp.setUTCDate(timestamp.getUTCDate() - daysAgo);
+  return { id: `session-${daysAgo}`, timestamp, durationSec: 1800 };
+}
+
+describe('ScoringConfig', () => {
+  it('should run a 7-day weekly score', () => {
+    const sessions = [0, 2, 4, 6].map(sessionDaysAgo);
+
+    const result = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+      config: WEEKLY_SCORING_CONFIG,
+    });
+
+    expect(result.chartData).toHaveLength(7);
+    expect(result.chartData[0].date).toBe('2024-06-24');
+    expect(result.chartData[6].date).toBe('2024-06-30');
+    expect(result.breakdown.baseScore).toBeCloseTo((4 / 7) * 60, 5);
+    expect(result.breakdown.distributionBonus).toBeCloseTo((1 - 2 / 7) * 25, 5);
+    expect(result.explanations[0]).toBe('You trained 4 out of 7 days (57%)');
+  });
+
+  it('should ignore sessions older than the window', () => {
+    const sessions = Array.from({ length: 10 }, (_, i) => sessionDaysAgo(i));
+
+    const result = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+      config: WEEKLY_SCORING_CONFIG,
+      trace: true,
+    });
+
+    expect(result.metadata.activeDays).toBe(7);
+    expect(result.metadata.totalSessions).toBe(7);
+    expect(result.breakdown.baseScore).toBeCloseTo(60, 5);
+    expect(result.explanations[0]).toBe('You trained 7 out of 7 days (100%)');
+    expect(result.trace!.activeDays).toHaveLength(7);
+  });
+
+  it('should run a 90-day quarterly score', () => {
+    const sessions = Array.from({ length: 30 }, (_, i) => sessionDaysAgo(i * 3));
+
+    const result = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+      config: QUARTERLY_SCORING_CONFIG,
+    });
+
+    expect(result.chartData).toHaveLength(90);
+    expect(result.breakdown.baseScore).toBeCloseTo((30 / 90) * 60, 5);
+    expect(result.explanations[0]).toBe('You trained 30 out of 90 days (33%)');
+  });
+
+  it('should apply custom weights, recency buckets and streak points', () => {
+    const config = {
+      ...DEFAULT_SCORING_CONFIG,
+      weights: { base: 50, distribution: 20, streak: 20, recency: 10 },
+      recencyBuckets: [{ maxDaysAgo: 2, points: 10 }],
+      streakPointsPerDay: 5,
+    };
+
+    const result = calculateConsistencyScore({
+      sessions: [0, 1, 2, 10].map(sessionDaysAgo),
+      referenceDate: REFERENCE_DATE,
+      config,
+    });
+
+    expect(result.breakdown.baseScore).toBeCloseTo((4 / 28) * 50, 5);
+    expect(result.breakdown.streakBonus).toBe(15);
+    expect(result.breakdown.recencyBonus).toBe(10);
+  });
+
+  it('should not award recency points without any sessions', () => {
+    const result = calculateConsistencyScore({
+      sessions: [],
+      referenceDate: REFERENCE_DATE,
+      config: WEEKLY_SCORING_CONFIG,
+    });
+
+    expect(result.score).toBe(0);
+    expect(result.breakdown.recencyBonus).toBe(0);
+  });
+
+  it('should accept the shipped presets', () => {
+    expect(() => validateScoringConfig(DEFAULT_SCORING_CONFIG)).not.toThrow();
+    expect(() => validateScoringConfig(WEEKLY_SCORING_CONFIG)).not.toThrow();
+    expect(() => validateScoringConfig(QUARTERLY_SCORING_CONFIG)).not.toThrow();
+  });
+
+  it('should reject weights that do not sum to 100', () => {
+    expect(() =>
+      calculateConsistencyScore({
+        sessions: [],
+        config: {
+          ...DEFAULT_SCORING_CONFIG,
+          weights: { base: 60, distribution: 25, streak: 10, recency: 10 },
+        },
+      })
+    ).toThrow(ScoringConfigError);
+  });
+
+  it('should reject invalid windows, buckets and streak points', () => {
+    expect(() =>
+      validateScoringConfig({ ...DEFAULT_SCORING_CONFIG, windowDays: 0 })
+    ).toThrow(ScoringConfigError);
+
+    expect(() =>
+      validateScoringConfig({
+        ...DEFAULT_SCORING_CONFIG,
+        recencyBuckets: [
+          { maxDaysAgo: 3, points: 3 },
+          { maxDaysAgo: 1, points: 5 },
+        ],
+      })
+    ).toThrow(ScoringConfigError);
+
+    expect(() =>
+      validateScoringConfig({
+        ...DEFAULT_SCORING_CONFIG,
+        recencyBuckets: [{ maxDaysAgo: 1, points: 6 }],
+      })
+    ).toThrow(ScoringConfigError);
+
+    expect(() =>
+      validateScoringConfig({ ...DEFAULT_SCORING_CONFIG, streakPointsPerDay: 0 })
+    ).toThrow(ScoringConfigError);
+  });
+});
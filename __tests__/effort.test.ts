@@ -0,0 +1,148 @@
+/**
+ * Tests for the effort score and minimum-duration threshold
+ *
+ * Covers: duration-only scoring, intensity, short sessions, blending,
+ * validation
+ */
+
+import { calculateConsistencyScore } from '../src/scoring';
+import { ScoringConfigError } from '../src/errors';
+import { Session } from '../src/types';
+
+const REFERENCE_DATE = new Date('2024-06-30T18:00:00Z');
+
+/**
+ * Helper: Create a UTC-noon session on June `day`
+ */
+function sessionOn(
+  day: number,
+  durationSec?: number,
+  intensity?: number
+): Session {
+  const date = `2024-06-${String(day).padStart(2, '0')}`;
+  return {
+    id: `session-${date}-${durationSec}`,
+    timestamp: new Date(`${date}T12:00:00Z`),
+    durationSec,
+    ...(intensity !== undefined && { intensity }),
+  };
+}
+
+describe('Effort Score', () => {
+  it('should be absent unless requested and leave the score alone', () => {
+    const sessions = [sessionOn(10, 1800), sessionOn(20, 1800)];
+
+    const plain = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+    });
+    const withEffort = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+      effort: {},
+    });
+
+    expect(plain.effort).toBeUndefined();
+    expect(withEffort.score).toBe(plain.score);
+    expect(withEffort.effort?.blendWeight).toBe(0);
+  });
+
+  it('should score duration alone when no session is rated', () => {
+    // 4 × 30 min = 120 of 600 target minutes (150/week over 28 days)
+    const sessions = [3, 10, 17, 24].map(day => sessionOn(day, 1800));
+
+    const { effort } = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+      effort: {},
+    });
+
+    expect(effort?.score).toBe(20);
+    expect(effort?.breakdown).toEqual({ volumePoints: 20, intensityPoints: 0 });
+    expect(effort?.metadata.averageIntensity).toBeNull();
+    expect(effort?.explanations).toEqual([
+      '120 of 600 target minutes (20%)',
+      'No intensity ratings yet, so effort is based on duration only',
+    ]);
+  });
+
+  it('should add intensity points from rated sessions', () => {
+    // 600 minutes meets the target; average RPE (54 + 8 + 10) / 11 ≈ 6.55
+    const sessions = [
+      ...Array.from({ length: 9 }, (_, i) => sessionOn(i + 3, 3600, 6)),
+      sessionOn(20, 3600, 8),
+      sessionOn(21, 0, 12), // clamped to 10
+    ];
+
+    const { effort } = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+      effort: {},
+    });
+
+    expect(effort?.breakdown.volumePoints).toBe(70);
+    expect(effort?.breakdown.intensityPoints).toBeCloseTo(18.48, 2);
+    expect(effort?.score).toBe(88);
+    expect(effort?.metadata.ratedSessions).toBe(11);
+  });
+
+  it('should ignore sessions shorter than the threshold', () => {
+    const sessions = [
+      sessionOn(10, 1800),
+      sessionOn(20, 30), // accidental tap
+      sessionOn(25), // unknown duration still counts
+    ];
+
+    const result = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+      minSessionDurationSec: 120,
+      effort: {},
+    });
+
+    expect(result.metadata.activeDays).toBe(2);
+    expect(result.chartData.find(d => d.date === '2024-06-20')?.hasActivity)
+      .toBe(false);
+    expect(result.effort?.metadata.ignoredShortSessions).toBe(1);
+    expect(result.effort?.explanations).toContain(
+      '1 session under 120 seconds not counted'
+    );
+  });
+
+  it('should blend into the final score only when configured', () => {
+    const sessions = [3, 10, 17, 24].map(day => sessionOn(day, 1800));
+
+    const plain = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+    });
+    const blended = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+      effort: { blendWeight: 0.5 },
+    });
+
+    expect(blended.score).toBe(Math.round((plain.score + 20) / 2));
+    expect(blended.breakdown).toEqual(plain.breakdown);
+    expect(blended.effort?.explanations).toContain(
+      'Effort makes up 50% of your overall score'
+    );
+  });
+
+  it('should reject out-of-range options', () => {
+    const base = { sessions: [], referenceDate: REFERENCE_DATE };
+
+    expect(() =>
+      calculateConsistencyScore({ ...base, effort: { blendWeight: 2 } })
+    ).toThrow(ScoringConfigError);
+    expect(() =>
+      calculateConsistencyScore({
+        ...base,
+        effort: { targetMinutesPerWeek: 0 },
+      })
+    ).toThrow(ScoringConfigError);
+    expect(() =>
+      calculateConsistencyScore({ ...base, minSessionDurationSec: -1 })
+    ).toThrow(ScoringConfigError);
+  });
+});
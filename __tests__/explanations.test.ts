@@ -0,0 +1,130 @@
+/**
+ * Tests for structured, localized explanations
+ *
+ * Covers: message objects, plurals, Spanish bundle, locale fallback,
+ * custom bundles, template syntax
+ */
+
+import { calculateConsistencyScore } from '../src/scoring';
+import {
+  EN_MESSAGES,
+  createExplanationRenderer,
+  formatMessage,
+} from '../src/explanations';
+import { ExplanationMessage } from '../src/types';
+import { REFERENCE_DATE, sessionsOn } from './helpers/fixtures';
+
+// Every Saturday in the window; last session 1 day before the reference date
+const SATURDAYS = sessionsOn([
+  '2024-06-08', '2024-06-15', '2024-06-22', '2024-06-29',
+]);
+
+describe('Explanations', () => {
+  it('should return structured messages next to the rendered bullets', () => {
+    const result = calculateConsistencyScore({
+      sessions: SATURDAYS,
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(result.messages).toEqual([
+      {
+        key: 'frequency',
+        params: { activeDays: 4, windowDays: 28, pct: 14 },
+        tone: 'neutral',
+        component: 'baseScore',
+      },
+      {
+        key: 'distribution.even',
+        params: {},
+        tone: 'positive',
+        component: 'distributionBonus',
+      },
+      {
+        key: 'rhythm.clockwork',
+        params: { rhythm: 'custom', days: '6' },
+        tone: 'positive',
+        component: 'distributionBonus',
+      },
+      {
+        key: 'recency.daysAgo',
+        params: { days: 1 },
+        tone: 'neutral',
+        component: 'recencyBonus',
+      },
+    ]);
+    expect(result.explanations).toEqual([
+      'You trained 4 out of 28 days (14%)',
+      'Your sessions are evenly distributed',
+      'You train every Saturday like clockwork',
+      'Last session was 1 day ago',
+    ]);
+  });
+
+  it('should render the same messages in Spanish', () => {
+    const result = calculateConsistencyScore({
+      sessions: SATURDAYS,
+      referenceDate: REFERENCE_DATE,
+      locale: 'es',
+    });
+
+    expect(result.explanations).toEqual([
+      'Entrenaste 4 de 28 días (14 %)',
+      'Tus sesiones están bien repartidas',
+      'Entrenas cada sábado como un reloj',
+      'Tu última sesión fue hace 1 día',
+    ]);
+  });
+
+  it('should fall back from region to language to English', () => {
+    const message: ExplanationMessage = {
+      key: 'gap.longest',
+      params: { days: 9 },
+      tone: 'warning',
+      component: 'distributionBonus',
+    };
+
+    expect(createExplanationRenderer('es-MX').render(message)).toBe(
+      'Pausa más larga: 9 días'
+    );
+
+    const unknown = createExplanationRenderer('xx');
+    expect(unknown.locale).toBe('en');
+    expect(unknown.render(message)).toBe('Longest gap: 9 days');
+  });
+
+  it('should accept custom bundles and fill missing keys from English', () => {
+    const renderer = createExplanationRenderer('en-GB', {
+      'en-GB': {
+        ...EN_MESSAGES,
+        'recency.today': 'You trained today, brilliant!',
+      },
+    });
+
+    expect(
+      renderer.renderAll([
+        { key: 'recency.today', params: {}, tone: 'positive', component: null },
+        {
+          key: 'streak.longest',
+          params: { days: 1 },
+          tone: 'positive',
+          component: 'streakBonus',
+        },
+      ])
+    ).toEqual(['You trained today, brilliant!', 'Longest streak: 1 day']);
+  });
+
+  it('should support exact plural matches, selects and weekday lists', () => {
+    const template =
+      '{n, plural, =0 {no sessions} one {# session} other {# sessions}} on {days, weekdays}';
+
+    expect(formatMessage(template, { n: 0, days: '3' }, 'en')).toBe(
+      'no sessions on Wednesday'
+    );
+    expect(formatMessage(template, { n: 1200, days: '5,1,3' }, 'en')).toBe(
+      '1,200 sessions on Mon/Wed/Fri'
+    );
+    expect(
+      formatMessage('{v, select, a {alpha} other {{v}}}', { v: 'z' }, 'en')
+    ).toBe('z');
+  });
+});
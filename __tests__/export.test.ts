@@ -0,0 +1,180 @@
+/**
+ * Tests for score exports
+ *
+ * Covers: per-day rows in the user's timezone, stable CSV / JSON Lines
+ * schemas, iCalendar events and line folding, streak rules, round trips,
+ * malformed input
+ */
+
+import {
+  buildExportRows,
+  exportCsv,
+  exportIcs,
+  exportJsonLines,
+  parseCsv,
+  parseIcs,
+  parseJsonLines,
+} from '../src/export';
+import { calculateConsistencyScore } from '../src/scoring';
+import { ExportFormatError } from '../src/errors';
+import { REFERENCE_DATE, sessionAt } from './helpers/fixtures';
+
+const SESSIONS = [
+  sessionAt('2024-06-24T12:00:00Z', 20),
+  sessionAt('2024-06-24T18:00:00Z', 40),
+  sessionAt('2024-06-25T12:00:00Z'),
+  sessionAt('2024-06-26T12:00:00Z'),
+  sessionAt('2024-06-28T02:00:00Z'), // Evening of the 27th in New York
+];
+
+const ROWS = buildExportRows({
+  sessions: SESSIONS,
+  startDate: new Date('2024-06-23T12:00:00Z'),
+  endDate: REFERENCE_DATE,
+  timezone: 'America/New_York',
+});
+
+describe('Export Rows', () => {
+  it('should emit one row per local day with that day’s score', () => {
+    expect(ROWS.map(r => r.date)).toEqual([
+      '2024-06-23',
+      '2024-06-24',
+      '2024-06-25',
+      '2024-06-26',
+      '2024-06-27',
+      '2024-06-28',
+      '2024-06-29',
+      '2024-06-30',
+    ]);
+    expect(ROWS[1]).toEqual({
+      date: '2024-06-24',
+      active: true,
+      sessionCount: 2,
+      totalDurationSec: 3600,
+      score: calculateConsistencyScore({
+        sessions: SESSIONS,
+        referenceDate: new Date('2024-06-24T20:00:00Z'),
+        timezone: 'America/New_York',
+      }).score,
+    });
+    expect(ROWS.filter(r => r.active).map(r => r.date)).toEqual([
+      '2024-06-24',
+      '2024-06-25',
+      '2024-06-26',
+      '2024-06-27',
+    ]);
+  });
+});
+
+describe('CSV Export', () => {
+  it('should keep a stable header and round-trip', () => {
+    const csv = exportCsv(ROWS);
+
+    expect(csv.split('\r\n').slice(0, 3)).toEqual([
+      'date,active,session_count,total_duration_sec,score',
+      `2024-06-23,false,0,0,${ROWS[0].score}`,
+      `2024-06-24,true,2,3600,${ROWS[1].score}`,
+    ]);
+    expect(parseCsv(csv)).toEqual(ROWS);
+  });
+
+  it('should report the line of a malformed row', () => {
+    const csv = exportCsv(ROWS).replace('2024-06-25,true', '2024-06-25,yes');
+
+    expect(() => parseCsv(csv)).toThrow(ExportFormatError);
+    expect(() => parseCsv(csv)).toThrow(
+      'Line 4: active must be true or false'
+    );
+    expect(() => parseCsv('day,score\r\n')).toThrow(ExportFormatError);
+  });
+});
+
+describe('JSON Lines Export', () => {
+  it('should write one object per line and round-trip', () => {
+    const jsonl = exportJsonLines(ROWS);
+
+    expect(jsonl.split('\n')[1]).toBe(
+      `{"date":"2024-06-24","active":true,"sessionCount":2,"totalDurationSec":3600,"score":${ROWS[1].score}}`
+    );
+    expect(parseJsonLines(jsonl)).toEqual(ROWS);
+  });
+
+  it('should reject lines that are not rows', () => {
+    expect(() => parseJsonLines('{"date":"2024-06-24"')).toThrow(
+      'Line 1: invalid JSON'
+    );
+    expect(() =>
+      parseJsonLines(exportJsonLines(ROWS) + '{"date":"June 1"}\n')
+    ).toThrow('Line 9: date must be YYYY-MM-DD');
+  });
+});
+
+describe('iCalendar Export', () => {
+  const generatedAt = new Date('2024-06-30T18:00:00Z');
+
+  it('should add all-day events for active days and streaks', () => {
+    const ics = exportIcs(ROWS, { generatedAt });
+    const lines = ics.split('\r\n');
+
+    expect(lines.slice(0, 2)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0']);
+    expect(lines).toContain('UID:active-2024-06-24@consistency-score');
+    expect(lines).toContain('SUMMARY:Trained: 2 sessions\\, 60 min');
+    expect(lines).toContain('DTSTAMP:20240630T180000Z');
+    expect(lines.filter(l => l === 'CATEGORIES:STREAK')).toHaveLength(1);
+    expect(lines).toContain('SUMMARY:4-day streak');
+  });
+
+  it('should round-trip active days and streaks', () => {
+    const parsed = parseIcs(exportIcs(ROWS, { generatedAt }));
+
+    expect(parsed.activeDays).toEqual(
+      ROWS.filter(r => r.active).map(r => ({
+        date: r.date,
+        sessionCount: r.sessionCount,
+        totalDurationSec: r.totalDurationSec,
+      }))
+    );
+    expect(parsed.streaks).toEqual([
+      { start: '2024-06-24', end: '2024-06-27', days: 4 },
+    ]);
+  });
+
+  it("should follow the score's streak rules", () => {
+    const streak = { restDays: [0], freezesPerWindow: 1 };
+    const sessions = [
+      '2024-06-22', '2024-06-24', '2024-06-25', '2024-06-27', '2024-06-28',
+    ].map(date => sessionAt(`${date}T12:00:00Z`));
+    const rows = buildExportRows({
+      sessions,
+      startDate: new Date('2024-06-17T12:00:00Z'),
+      endDate: REFERENCE_DATE,
+    });
+
+    // Sunday 06-23 is a rest day and the freeze bridges 06-26
+    const parsed = parseIcs(exportIcs(rows, { generatedAt, streak }));
+    expect(parsed.streaks).toEqual([
+      { start: '2024-06-22', end: '2024-06-28', days: 5 },
+    ]);
+    expect(parsed.streaks[0].days).toBe(
+      calculateConsistencyScore({
+        sessions,
+        referenceDate: REFERENCE_DATE,
+        streak,
+      }).metadata.longestStreak
+    );
+
+    // Without the rules no run reaches 3 days
+    expect(parseIcs(exportIcs(rows, { generatedAt })).streaks).toEqual([]);
+  });
+
+  it('should fold long lines at 75 octets', () => {
+    const calendarName = 'Entraînement — équipe du mardi, '.repeat(4);
+    const ics = exportIcs(ROWS, { calendarName, generatedAt });
+
+    expect(
+      ics.split('\r\n').every(line => Buffer.byteLength(line) <= 75)
+    ).toBe(true);
+    expect(parseIcs(ics).activeDays).toHaveLength(4);
+    expect(() => parseIcs('BEGIN:VCARD\r\n')).toThrow(ExportFormatError);
+  });
+});
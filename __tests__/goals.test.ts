@@ -0,0 +1,119 @@
+/**
+ * Tests for goal-based scoring
+ *
+ * Covers: weekly attainment, partial weeks, in-progress weeks, validation
+ */
+
+import { calculateConsistencyScore } from '../src/scoring';
+import { ScoringConfigError } from '../src/errors';
+import { Session } from '../src/types';
+import { REFERENCE_DATE, sessionsOn } from './helpers/fixtures';
+
+// Sunday; the 28-day window is Mon 2024-06-03 … Sun 2024-06-30
+/**
+ * Mon/Wed/Fri for the four weeks in the window
+ */
+function threeTimesAWeek(): Session[] {
+  return sessionsOn([
+    '2024-06-03', '2024-06-05', '2024-06-07',
+    '2024-06-10', '2024-06-12', '2024-06-14',
+    '2024-06-17', '2024-06-19', '2024-06-21',
+    '2024-06-24', '2024-06-26', '2024-06-28',
+  ]);
+}
+
+describe('Goal-based scoring', () => {
+  it('should give full base score when every week meets the goal', () => {
+    const result = calculateConsistencyScore({
+      sessions: threeTimesAWeek(),
+      referenceDate: REFERENCE_DATE,
+      goal: { activeDaysPerWeek: 3 },
+    });
+
+    expect(result.goal?.attainment).toBe(1);
+    expect(result.goal?.weeksMet).toBe(4);
+    expect(result.goal?.weeksEvaluated).toBe(4);
+    expect(result.goal?.weeks.map(w => w.status)).toEqual([
+      'met', 'met', 'met', 'met',
+    ]);
+    expect(result.breakdown.baseScore).toBe(60);
+    expect(result.explanations[0]).toBe(
+      'You met your 3-day weekly goal in 4 of 4 weeks'
+    );
+  });
+
+  it('should score the same sessions lower without a goal', () => {
+    const withGoal = calculateConsistencyScore({
+      sessions: threeTimesAWeek(),
+      referenceDate: REFERENCE_DATE,
+      goal: { activeDaysPerWeek: 3 },
+    });
+    const withoutGoal = calculateConsistencyScore({
+      sessions: threeTimesAWeek(),
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(withoutGoal.goal).toBeUndefined();
+    expect(withoutGoal.breakdown.baseScore).toBeCloseTo((12 / 28) * 60, 5);
+    expect(withGoal.score).toBeGreaterThan(withoutGoal.score);
+  });
+
+  it('should give partial credit for missed weeks', () => {
+    const result = calculateConsistencyScore({
+      sessions: threeTimesAWeek(),
+      referenceDate: REFERENCE_DATE,
+      goal: { activeDaysPerWeek: 4 },
+    });
+
+    expect(result.goal?.weeksMet).toBe(0);
+    expect(result.goal?.attainment).toBeCloseTo(0.75, 5);
+    expect(result.breakdown.baseScore).toBeCloseTo(45, 5);
+    expect(result.chartData).toHaveLength(28);
+  });
+
+  it('should prorate the leading week and hold the current week open', () => {
+    const result = calculateConsistencyScore({
+      sessions: threeTimesAWeek(),
+      referenceDate: REFERENCE_DATE,
+      goal: { activeDaysPerWeek: 3, weekStartsOn: 0 },
+    });
+
+    const weeks = result.goal!.weeks;
+    expect(weeks).toHaveLength(5);
+
+    expect(weeks[0]).toMatchObject({
+      weekStart: '2024-06-02',
+      daysInWindow: 6,
+      activeDays: 3,
+      target: 3,
+      status: 'met',
+    });
+
+    expect(weeks[4]).toMatchObject({
+      weekStart: '2024-06-30',
+      daysInWindow: 1,
+      activeDays: 0,
+      target: 3,
+      status: 'in-progress',
+    });
+
+    expect(result.goal?.weeksEvaluated).toBe(4);
+    expect(result.explanations).toContain('This week: 0 of 3 days so far');
+  });
+
+  it('should reject out-of-range goals', () => {
+    expect(() =>
+      calculateConsistencyScore({
+        sessions: [],
+        goal: { activeDaysPerWeek: 8 },
+      })
+    ).toThrow(ScoringConfigError);
+
+    expect(() =>
+      calculateConsistencyScore({
+        sessions: [],
+        goal: { activeDaysPerWeek: 3, weekStartsOn: 7 },
+      })
+    ).toThrow(ScoringConfigError);
+  });
+});
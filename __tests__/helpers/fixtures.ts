@@ -0,0 +1,99 @@
+/**
+ * Shared test fixtures: session factories and a Firestore double
+ *
+ * Not a test suite (excluded via testPathIgnorePatterns).
+ */
+
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { Session } from '../../src/types';
+
+export const REFERENCE_DATE = new Date('2024-06-30T18:00:00Z');
+
+/**
+ * Helper: 30-minute UTC-noon session on a date (ID derived from the date)
+ */
+export function sessionOn(
+  date: string,
+  overrides: Partial<Session> = {}
+): Session {
+  return {
+    id: `session-${date}`,
+    timestamp: new Date(`${date}T12:00:00Z`),
+    durationSec: 1800,
+    ...overrides,
+  };
+}
+
+/**
+ * Helper: One UTC-noon session per date
+ */
+export function sessionsOn(dates: string[]): Session[] {
+  return dates.map(date => sessionOn(date));
+}
+
+/**
+ * Helper: Session at a UTC instant lasting `minutes`
+ */
+export function sessionAt(iso: string, minutes = 30): Session {
+  return {
+    id: `session-${iso}`,
+    timestamp: new Date(iso),
+    durationSec: minutes * 60,
+  };
+}
+
+/**
+ * Helper: Minimal Firestore double serving each user's sessions as stored
+ * documents (absent fields stay absent); users listed in `failing` reject
+ */
+export function fakeFirestore(
+  sessionsByUser: Record<string, Session[]>,
+  failing: string[] = []
+): Firestore {
+  const query = (userId: string): unknown => {
+    const chain = {
+      where: () => chain,
+      orderBy: () => chain,
+      limit: () => chain,
+      startAfter: () => chain,
+      get: async () => {
+        if (failing.includes(userId)) throw new Error('UNAVAILABLE');
+
+        const docs = (sessionsByUser[userId] ?? []).map(
+          ({ id, timestamp, ...fields }) => ({
+            id,
+            data: () => ({
+              ...fields,
+              timestamp: Timestamp.fromDate(timestamp),
+            }),
+          })
+        );
+        return { docs, size: docs.length, empty: docs.length === 0 };
+      },
+    };
+    return chain;
+  };
+
+  return {
+    collection: () => ({
+      doc: (userId: string) => ({
+        collection: () => query(userId),
+      }),
+    }),
+  } as unknown as Firestore;
+}
+
+/**
+ * Helper: Every date from `from` to `to` (inclusive)
+ */
+export function dateRange(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (
+    let d = new Date(`${from}T00:00:00Z`);
+    d <= new Date(`${to}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + 1)
+  ) {
+    dates.push(d.toISOString().slice(0, 10));
+  }
+  return dates;
+}
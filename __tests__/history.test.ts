@@ -0,0 +1,108 @@
+/**
+ * Tests for daily score history
+ *
+ * Covers: range length, equivalence with calculateConsistencyScore,
+ * window boundaries
+ */
+
+import { calculateScoreHistory } from '../src/history';
+import { calculateConsistencyScore } from '../src/scoring';
+import { Session } from '../src/types';
+import { sessionOn, sessionsOn } from './helpers/fixtures';
+
+/**
+ * Deterministic, irregular activity from 2024-01-01 for `days` days
+ */
+function irregularSessions(days: number): Session[] {
+  const sessions: Session[] = [];
+  const start = new Date('2024-01-01T00:00:00Z');
+
+  for (let i = 0; i < days; i++) {
+    if ((i * 7) % 5 < 2 || i % 11 === 0) {
+      const d = new Date(start);
+      d.setUTCDate(d.getUTCDate() + i);
+      sessions.push(sessionOn(d.toISOString().slice(0, 10)));
+    }
+  }
+
+  return sessions;
+}
+
+describe('Score History', () => {
+  it('should return one point per day in the range', () => {
+    const history = calculateScoreHistory({
+      sessions: irregularSessions(150),
+      startDate: new Date('2024-02-01T12:00:00Z'),
+      endDate: new Date('2024-04-30T12:00:00Z'),
+    });
+
+    expect(history).toHaveLength(90);
+    expect(history[0].date).toBe('2024-02-01');
+    expect(history[89].date).toBe('2024-04-30');
+  });
+
+  it('should match calculateConsistencyScore for every day', () => {
+    const sessions = irregularSessions(150);
+
+    const history = calculateScoreHistory({
+      sessions,
+      startDate: new Date('2024-02-01T12:00:00Z'),
+      endDate: new Date('2024-04-30T12:00:00Z'),
+    });
+
+    for (const point of history) {
+      const windowStart = new Date(`${point.date}T00:00:00Z`);
+      windowStart.setUTCDate(windowStart.getUTCDate() - 27);
+      const windowEnd = new Date(`${point.date}T23:59:59Z`);
+
+      const expected = calculateConsistencyScore({
+        sessions: sessions.filter(
+          s => s.timestamp >= windowStart && s.timestamp <= windowEnd
+        ),
+        referenceDate: new Date(`${point.date}T18:00:00Z`),
+      });
+
+      expect(point.score).toBe(expected.score);
+      expect(point.activeDays).toBe(expected.metadata.activeDays);
+      expect(point.breakdown).toEqual(expected.breakdown);
+    }
+  });
+
+  it('should ignore sessions after each day and before its window', () => {
+    const sessions = sessionsOn(['2024-03-01', '2024-03-29', '2024-04-10']);
+
+    const history = calculateScoreHistory({
+      sessions,
+      startDate: new Date('2024-03-28T12:00:00Z'),
+      endDate: new Date('2024-03-29T12:00:00Z'),
+    });
+
+    // 2024-03-28 window: 03-01 … 03-28
+    expect(history[0].activeDays).toBe(1);
+    // 2024-03-29 window: 03-02 … 03-29 (03-01 drops out, 03-29 joins)
+    expect(history[1].activeDays).toBe(1);
+    expect(history[1].breakdown.recencyBonus).toBe(5);
+  });
+
+  it('should bucket in the requested timezone', () => {
+    const sessions: Session[] = [
+      { id: 'late', timestamp: new Date('2024-03-10T23:30:00Z') },
+    ];
+
+    const [utc] = calculateScoreHistory({
+      sessions,
+      startDate: new Date('2024-03-10T12:00:00Z'),
+      endDate: new Date('2024-03-10T12:00:00Z'),
+    });
+    const [tokyo] = calculateScoreHistory({
+      sessions,
+      startDate: new Date('2024-03-10T12:00:00Z'),
+      endDate: new Date('2024-03-10T12:00:00Z'),
+      timezone: 'Asia/Tokyo',
+    });
+
+    expect(utc.activeDays).toBe(1);
+    expect(tokyo.date).toBe('2024-03-10');
+    expect(tokyo.activeDays).toBe(0);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for logging and metrics hooks
+ *
+ * Covers: scoring metrics and log fields, no-op default, Firestore read
+ * counts and latency, swallowed batch errors
+ */
+
+import { calculateConsistencyScore } from '../src/scoring';
+import {
+  batchFetchUserSessions,
+  createFirestoreSessionRepository,
+} from '../src/queries';
+import {
+  NOOP_INSTRUMENTATION,
+  createInMemoryInstrumentation,
+} from '../src/instrumentation';
+import { REFERENCE_DATE, fakeFirestore, sessionsOn } from './helpers/fixtures';
+
+const SESSIONS = sessionsOn(['2024-06-26', '2024-06-28', '2024-06-29']);
+
+describe('Instrumentation', () => {
+  it('should record scoring duration, score and the README log fields', () => {
+    const instrumentation = createInMemoryInstrumentation();
+
+    const result = calculateConsistencyScore({
+      sessions: SESSIONS,
+      referenceDate: REFERENCE_DATE,
+      instrumentation,
+    });
+
+    expect(instrumentation.values('score.value')).toEqual([result.score]);
+    expect(instrumentation.values('score.duration_ms')).toHaveLength(1);
+    expect(instrumentation.logs).toEqual([
+      {
+        level: 'info',
+        message: 'score.calculated',
+        fields: {
+          score: result.score,
+          activeDays: 3,
+          totalSessions: 3,
+          breakdown: result.breakdown,
+          durationMs: expect.any(Number),
+        },
+      },
+    ]);
+  });
+
+  it('should leave results unchanged and keep traces serializable', () => {
+    const instrumentation = createInMemoryInstrumentation();
+    const input = { sessions: SESSIONS, referenceDate: REFERENCE_DATE };
+
+    const plain = calculateConsistencyScore({ ...input, trace: true });
+    const observed = calculateConsistencyScore({
+      ...input,
+      trace: true,
+      instrumentation,
+    });
+
+    expect(observed).toEqual(plain);
+    expect(observed.trace!.input.options).not.toHaveProperty(
+      'instrumentation'
+    );
+    expect(() =>
+      calculateConsistencyScore({
+        ...input,
+        instrumentation: NOOP_INSTRUMENTATION,
+      })
+    ).not.toThrow();
+  });
+
+  it('should record Firestore reads and latency per operation', async () => {
+    const instrumentation = createInMemoryInstrumentation();
+    const repo = createFirestoreSessionRepository(
+      fakeFirestore({ u1: SESSIONS }),
+      instrumentation
+    );
+
+    await repo.fetchSessionWindow('u1', { referenceDate: REFERENCE_DATE });
+    await repo.getLastSession('u2');
+
+    const reads = instrumentation.metricRecords.filter(
+      m => m.name === 'firestore.reads'
+    );
+    expect(reads.map(m => [m.tags.operation, m.value])).toEqual([
+      ['fetchSessionWindow', 3],
+      ['getLastSession', 1], // Empty results still bill one read
+    ]);
+    expect(instrumentation.values('firestore.latency_ms')).toHaveLength(2);
+  });
+
+  it('should report users the batch fetch failed', async () => {
+    const instrumentation = createInMemoryInstrumentation();
+
+    const result = await batchFetchUserSessions(
+      fakeFirestore({ u1: SESSIONS }, ['u2']),
+      ['u1', 'u2'],
+      { instrumentation }
+    );
+
+    expect(result.users.get('u2')?.status).toBe('failed');
+    expect(instrumentation.values('firestore.batch_errors')).toEqual([1]);
+    expect(instrumentation.values('firestore.errors')).toEqual([1]);
+    expect(instrumentation.logs).toContainEqual({
+      level: 'warn',
+      message: 'firestore.batch_user_failed',
+      fields: { userId: 'u2', attempts: 1, error: 'UNAVAILABLE' },
+    });
+  });
+});
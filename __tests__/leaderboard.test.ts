@@ -0,0 +1,231 @@
+/**
+ * Tests for opt-in group leaderboards
+ *
+ * Covers: ranking from cached scores, single read per member, visibility,
+ * tie-breaking, percentiles, minimum group size, localization
+ */
+
+import {
+  applySessionWrite,
+  createInMemoryScoreCacheStore,
+  ScoreCacheStore,
+} from '../src/cache';
+import { getGroupLeaderboard, rankGroupMembers } from '../src/leaderboard';
+import { calculateConsistencyScore } from '../src/scoring';
+import { addDays } from '../src/dates';
+import {
+  ConsistencyScore,
+  Group,
+  GroupMember,
+  ScoreBreakdown,
+} from '../src/types';
+import { REFERENCE_DATE, dateRange, sessionsOn } from './helpers/fixtures';
+
+/**
+ * Helper: Cache `days` consecutive UTC-noon sessions ending today
+ */
+async function seed(
+  store: ScoreCacheStore,
+  userId: string,
+  days: number
+): Promise<void> {
+  for (const session of sessionsOn(lastDays(days))) {
+    await applySessionWrite(store, userId, session, {
+      referenceDate: REFERENCE_DATE,
+    });
+  }
+}
+
+/**
+ * Helper: The `days` dates ending today
+ */
+function lastDays(days: number): string[] {
+  return dateRange(addDays('2024-06-30', 1 - days), '2024-06-30');
+}
+
+const BASE_SCORE = calculateConsistencyScore({
+  sessions: [],
+  referenceDate: REFERENCE_DATE,
+});
+
+/**
+ * Helper: Synthetic score with a given value and breakdown
+ */
+function scoreOf(
+  score: number,
+  breakdown: Partial<ScoreBreakdown> = {}
+): ConsistencyScore {
+  return {
+    ...BASE_SCORE,
+    score,
+    breakdown: { ...BASE_SCORE.breakdown, ...breakdown },
+  };
+}
+
+describe('Group Leaderboard', () => {
+  const members: GroupMember[] = [
+    { userId: 'ana', displayName: 'Ana', visibility: 'visible' },
+    { userId: 'ben', displayName: 'Ben', visibility: 'anonymous' },
+    { userId: 'cho', displayName: 'Cho', visibility: 'visible' },
+    { userId: 'dev', displayName: 'Dev', visibility: 'visible' },
+    { userId: 'eli', displayName: 'Eli', visibility: 'visible' },
+    { userId: 'fay', displayName: 'Fay' }, // Never opted in
+    { userId: 'gus', visibility: 'visible' }, // No cached score
+  ];
+  const group: Group = { id: 'team-1', members };
+
+  let store: ScoreCacheStore;
+  let reads: string[];
+
+  beforeEach(async () => {
+    const inner = createInMemoryScoreCacheStore();
+    const days: Record<string, number> = {
+      ana: 12,
+      ben: 8,
+      cho: 4,
+      dev: 2,
+      eli: 1,
+      fay: 20,
+    };
+    for (const [userId, n] of Object.entries(days)) {
+      await seed(inner, userId, n);
+    }
+
+    reads = [];
+    store = {
+      read: userId => {
+        reads.push(userId);
+        return inner.read(userId);
+      },
+      update: (userId, fn) => inner.update(userId, fn),
+    };
+  });
+
+  it('should rank opted-in members from their cached scores', async () => {
+    const board = await getGroupLeaderboard(store, group, {
+      referenceDate: REFERENCE_DATE,
+      viewerId: 'cho',
+    });
+
+    expect(board.rankedMembers).toBe(5);
+    expect(board.entries.map(e => [e.rank, e.userId, e.displayName])).toEqual([
+      [1, 'ana', 'Ana'],
+      [2, null, null], // Ben is anonymous
+      [3, 'cho', 'Cho'],
+      [4, 'dev', 'Dev'],
+      [5, 'eli', 'Eli'],
+    ]);
+    expect(board.entries[2].isViewer).toBe(true);
+
+    // Fay (hidden) is never read
+    expect(reads).not.toContain('fay');
+  });
+
+  it('should read each member once and never write', async () => {
+    const update = jest.spyOn(store, 'update');
+    const nextDay = new Date('2024-07-01T08:00:00Z');
+
+    const board = await getGroupLeaderboard(store, group, {
+      referenceDate: nextDay,
+      viewerId: 'cho',
+    });
+
+    expect(reads.sort()).toEqual(['ana', 'ben', 'cho', 'dev', 'eli', 'gus']);
+    expect(update).not.toHaveBeenCalled();
+
+    // Rolled over in memory; the stored document keeps its reference day
+    expect(board.entries[0].score).toBe(
+      calculateConsistencyScore({
+        sessions: sessionsOn(lastDays(12)),
+        referenceDate: nextDay,
+      }).score
+    );
+    expect((await store.read('ana'))?.referenceDay).toBe('2024-06-30');
+  });
+
+  it("should tell the viewer what share of the group they're ahead of", async () => {
+    const board = await getGroupLeaderboard(store, group, {
+      referenceDate: REFERENCE_DATE,
+      viewerId: 'cho',
+    });
+
+    expect(board.viewer).toMatchObject({ rank: 3, percentile: 50 });
+    expect(board.viewer?.text).toBe(
+      "You're more consistent than 50% of your group"
+    );
+
+    const spanish = await getGroupLeaderboard(store, group, {
+      referenceDate: REFERENCE_DATE,
+      viewerId: 'ana',
+      locale: 'es',
+    });
+    expect(spanish.viewer?.text).toBe(
+      'Eres más constante que el 100 % de tu grupo'
+    );
+  });
+
+  it('should let anonymous viewers see themselves', async () => {
+    const board = await getGroupLeaderboard(store, group, {
+      referenceDate: REFERENCE_DATE,
+      viewerId: 'ben',
+    });
+
+    expect(board.entries[1]).toMatchObject({
+      userId: 'ben',
+      displayName: 'Ben',
+      isViewer: true,
+    });
+  });
+
+  it('should not rank or compare hidden viewers', async () => {
+    const board = await getGroupLeaderboard(store, group, {
+      referenceDate: REFERENCE_DATE,
+      viewerId: 'fay',
+    });
+
+    expect(board.viewer).toBeNull();
+    expect(board.entries.some(e => e.isViewer)).toBe(false);
+  });
+
+  it('should withhold percentiles in small groups', () => {
+    const board = rankGroupMembers(
+      'pair',
+      [
+        { member: { userId: 'a', visibility: 'visible' }, score: scoreOf(80) },
+        { member: { userId: 'b', visibility: 'visible' }, score: scoreOf(60) },
+      ],
+      { viewerId: 'a' }
+    );
+
+    expect(board.viewer).toEqual({
+      rank: 1,
+      percentile: null,
+      message: null,
+      text: null,
+    });
+  });
+
+  it('should break ties on breakdown components, then share the rank', () => {
+    const visible = (userId: string): GroupMember => ({
+      userId,
+      visibility: 'visible',
+    });
+
+    const board = rankGroupMembers('ties', [
+      { member: visible('steady'), score: scoreOf(50, { baseScore: 30 }) },
+      {
+        member: visible('streaky'),
+        score: scoreOf(50, { baseScore: 30, distributionBonus: 2 }),
+      },
+      { member: visible('frequent'), score: scoreOf(50, { baseScore: 35 }) },
+      { member: visible('twin'), score: scoreOf(50, { baseScore: 30 }) },
+    ]);
+
+    expect(board.entries.map(e => [e.rank, e.userId])).toEqual([
+      [1, 'frequent'],
+      [2, 'streaky'],
+      [3, 'steady'],
+      [3, 'twin'],
+    ]);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Tests for lapse-risk detection and nudge scheduling
+ *
+ * Covers: personal lapse thresholds, usual-weekday timing, quiet hours
+ * across timezones, rate limits, localization, two-pass batch scan
+ */
+
+import { assessLapseRisk, decideNudge, scanForLapses } from '../src/nudges';
+import { calculateConsistencyScore } from '../src/scoring';
+import { createInMemorySessionRepository } from '../src/repository';
+import { ScoringConfigError } from '../src/errors';
+import { addDays } from '../src/dates';
+import { Session } from '../src/types';
+import { sessionsOn } from './helpers/fixtures';
+
+// Thursday 10:00 UTC
+const REFERENCE_DATE = new Date('2024-06-27T10:00:00Z');
+
+// Every Tuesday and Thursday until a week ago (gaps 2, 5, 2, 5, 2)
+const TUE_THU = sessionsOn([
+  '2024-06-04',
+  '2024-06-06',
+  '2024-06-11',
+  '2024-06-13',
+  '2024-06-18',
+  '2024-06-20',
+]);
+
+function scoreAt(sessions: Session[], referenceDate = REFERENCE_DATE) {
+  return calculateConsistencyScore({ sessions, referenceDate });
+}
+
+describe('Lapse Risk', () => {
+  it('should flag gaps that are long for this user', () => {
+    const risk = assessLapseRisk(scoreAt(TUE_THU).metadata);
+
+    expect(risk).toMatchObject({
+      status: 'lapsing',
+      daysSinceLastSession: 7,
+      typicalGap: 3.2,
+      usualWeekdays: [2, 4],
+    });
+    expect(risk.expectedMaxGap).toBeCloseTo(3.2 + 2 * 1.47, 2);
+  });
+
+  it('should not flag normal gaps or users without enough history', () => {
+    const saturday = new Date('2024-06-22T10:00:00Z');
+
+    expect(assessLapseRisk(scoreAt(TUE_THU, saturday).metadata).status).toBe(
+      'on-track'
+    );
+    expect(
+      assessLapseRisk(scoreAt(TUE_THU.slice(0, 3)).metadata).status
+    ).toBe('insufficient-history');
+  });
+});
+
+describe('Nudge Decision', () => {
+  const score = scoreAt(TUE_THU);
+
+  it('should nudge now on a usual training day', () => {
+    const decision = decideNudge({ score, referenceDate: REFERENCE_DATE });
+
+    expect(decision.reason).toBe('scheduled');
+    expect(decision.sendAt).toEqual(REFERENCE_DATE);
+    expect(decision.text).toBe(
+      'You usually train on Thursdays — still time today'
+    );
+
+    const spanish = decideNudge({
+      score,
+      referenceDate: REFERENCE_DATE,
+      locale: 'es',
+    });
+    expect(spanish.text).toBe(
+      'Hoy es jueves, uno de tus días habituales: todavía estás a tiempo'
+    );
+  });
+
+  it('should wait for quiet hours to end in the user timezone', () => {
+    // 06:00 in New York
+    const decision = decideNudge({
+      score,
+      referenceDate: REFERENCE_DATE,
+      timezone: 'America/New_York',
+    });
+
+    expect(decision.sendAt).toEqual(new Date('2024-06-27T12:00:00Z'));
+  });
+
+  it('should end quiet hours after a DST gap, not inside them', () => {
+    // 00:30 EST on 2024-03-10; 02:00 is skipped (clocks go to 03:00 EDT)
+    const referenceDate = new Date('2024-03-10T05:30:00Z');
+    const spring = scoreAt(
+      sessionsOn([
+        '2024-02-13',
+        '2024-02-15',
+        '2024-02-20',
+        '2024-02-22',
+        '2024-02-27',
+        '2024-02-29',
+      ]),
+      referenceDate
+    );
+
+    const decision = decideNudge({
+      score: { ...spring, metadata: { ...spring.metadata, rhythm: null } },
+      referenceDate,
+      timezone: 'America/New_York',
+      policy: { quietHours: { start: 22, end: 2 } },
+    });
+
+    expect(decision.sendAt).toEqual(new Date('2024-03-10T07:00:00Z'));
+  });
+
+  it('should move to the next usual day after quiet hours start', () => {
+    const decision = decideNudge({
+      score,
+      referenceDate: new Date('2024-06-27T21:30:00Z'),
+    });
+
+    expect(decision.sendAt).toEqual(new Date('2024-07-02T08:00:00Z'));
+  });
+
+  it('should count days since the last session on the send day', () => {
+    const decision = decideNudge({
+      score: { ...score, metadata: { ...score.metadata, rhythm: null } },
+      referenceDate: new Date('2024-06-27T22:00:00Z'),
+    });
+
+    expect(decision.sendAt).toEqual(new Date('2024-06-28T08:00:00Z'));
+    expect(decision.text).toBe(
+      "It's been 8 days since your last session — still time today"
+    );
+  });
+
+  it('should respect minimum spacing and the weekly cap', () => {
+    const spaced = decideNudge({
+      score,
+      referenceDate: REFERENCE_DATE,
+      recentNudges: [new Date('2024-06-26T09:00:00Z')],
+    });
+    expect(spaced.sendAt).toEqual(new Date('2024-07-02T08:00:00Z'));
+
+    const twoThisWeek = [
+      new Date('2024-06-21T09:00:00Z'),
+      new Date('2024-06-24T09:00:00Z'),
+    ];
+    const capped = decideNudge({
+      score,
+      referenceDate: REFERENCE_DATE,
+      recentNudges: twoThisWeek,
+      policy: { maxNudgesPerWeek: 3 },
+    });
+    expect(capped.sendAt).toEqual(REFERENCE_DATE);
+
+    const limited = decideNudge({
+      score,
+      referenceDate: REFERENCE_DATE,
+      recentNudges: twoThisWeek,
+      policy: { horizonDays: 3 },
+    });
+    expect(limited).toMatchObject({
+      reason: 'rate-limited',
+      sendAt: null,
+      text: null,
+    });
+  });
+
+  it('should accept quiet hours that do not wrap midnight', () => {
+    const decision = decideNudge({
+      score,
+      referenceDate: new Date('2024-06-27T13:30:00Z'),
+      policy: { quietHours: { start: 13, end: 15 } },
+    });
+
+    expect(decision.sendAt).toEqual(new Date('2024-06-27T15:00:00Z'));
+  });
+
+  it('should reject unusable policies', () => {
+    expect(() =>
+      decideNudge({ score, policy: { quietHours: { start: 6, end: 6 } } })
+    ).toThrow(ScoringConfigError);
+    expect(() =>
+      decideNudge({ score, policy: { quietHours: { start: 25, end: 8 } } })
+    ).toThrow(ScoringConfigError);
+    expect(() =>
+      decideNudge({ score, policy: { maxNudgesPerWeek: 0 } })
+    ).toThrow(ScoringConfigError);
+  });
+});
+
+describe('Lapse Scan', () => {
+  it('should only fetch windows for users who may be lapsing', async () => {
+    const repo = createInMemorySessionRepository({
+      sessions: {
+        lapsing: TUE_THU,
+        recent: sessionsOn(['2024-06-26']),
+        broken: TUE_THU,
+      },
+      timezones: { lapsing: 'America/New_York' },
+    });
+    const fetched: string[][] = [];
+    const batchFetchSessions = repo.batchFetchSessions;
+    repo.batchFetchSessions = (userIds, options) => {
+      fetched.push(userIds);
+      return batchFetchSessions(userIds, options);
+    };
+    const getLastSession = repo.getLastSession;
+    repo.getLastSession = userId =>
+      userId === 'broken'
+        ? Promise.reject(new Error('UNAVAILABLE'))
+        : getLastSession(userId);
+    const profileReads: string[] = [];
+    const getUserTimezone = repo.getUserTimezone;
+    repo.getUserTimezone = userId => {
+      profileReads.push(userId);
+      return getUserTimezone(userId);
+    };
+
+    const { users } = await scanForLapses(
+      repo,
+      [
+        { userId: 'lapsing', recentNudges: [] },
+        { userId: 'recent' },
+        { userId: 'new' },
+        { userId: 'broken' },
+      ],
+      { referenceDate: REFERENCE_DATE }
+    );
+
+    expect([...users].map(([id, e]) => [id, e.status])).toEqual([
+      ['lapsing', 'evaluated'],
+      ['recent', 'recent'],
+      ['new', 'no-sessions'],
+      ['broken', 'failed'],
+    ]);
+    expect(fetched).toEqual([['lapsing']]);
+    expect(profileReads).toEqual(['lapsing', 'recent']);
+    expect(users.get('lapsing')!.decision?.sendAt).toEqual(
+      new Date('2024-06-27T12:00:00Z')
+    );
+    expect(users.get('broken')!.error?.message).toBe('UNAVAILABLE');
+  });
+
+  it('should measure long lapses against the lookback history', async () => {
+    // Every 3 days, then nothing for `lapse` days
+    const lapsedFor = (lapse: number) =>
+      sessionsOn(
+        Array.from({ length: 6 }, (_, i) =>
+          addDays('2024-06-27', -(lapse + 3 * i))
+        )
+      );
+    const repo = createInMemorySessionRepository({
+      sessions: { d22: lapsedFor(22), d40: lapsedFor(40) },
+    });
+
+    const { users } = await scanForLapses(
+      repo,
+      [{ userId: 'd22' }, { userId: 'd40' }],
+      { referenceDate: REFERENCE_DATE }
+    );
+
+    for (const [days, userId] of [
+      [22, 'd22'],
+      [40, 'd40'],
+    ] as const) {
+      expect(users.get(userId)!.decision).toMatchObject({
+        reason: 'scheduled',
+        risk: { status: 'lapsing', daysSinceLastSession: days, typicalGap: 3 },
+      });
+    }
+
+    await expect(
+      scanForLapses(repo, [], { lookbackDays: 7 })
+    ).rejects.toThrow(ScoringConfigError);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for weekly rhythm recognition
+ *
+ * Covers: weekend/single-day/multi-day rhythms, confidence,
+ * rhythm-based distribution bonus
+ */
+
+import { calculateConsistencyScore } from '../src/scoring';
+import { WEEKLY_SCORING_CONFIG } from '../src/config';
+import { REFERENCE_DATE, sessionsOn } from './helpers/fixtures';
+
+// Sunday; the 28-day window is Mon 2024-06-03 … Sun 2024-06-30
+const SATURDAYS = ['2024-06-08', '2024-06-15', '2024-06-22', '2024-06-29'];
+const SUNDAYS = ['2024-06-09', '2024-06-16', '2024-06-23', '2024-06-30'];
+
+describe('Weekly Rhythm Recognition', () => {
+  it('should recognize an every-weekend rhythm', () => {
+    const result = calculateConsistencyScore({
+      sessions: sessionsOn([...SATURDAYS, ...SUNDAYS]),
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(result.metadata.rhythm).toEqual({
+      weekdays: [0, 6],
+      label: 'every weekend',
+      confidence: 1,
+    });
+    expect(result.explanations).toContain(
+      'You train every weekend like clockwork'
+    );
+  });
+
+  it('should not count an untrained today against a Saturday rhythm', () => {
+    const result = calculateConsistencyScore({
+      sessions: sessionsOn(SATURDAYS),
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(result.metadata.rhythm?.label).toBe('every Saturday');
+    expect(result.metadata.rhythm?.confidence).toBe(1);
+    expect(result.explanations).toContain(
+      'You train every Saturday like clockwork'
+    );
+  });
+
+  it('should label multi-day rhythms Monday first', () => {
+    const sessions = sessionsOn([
+      '2024-06-03', '2024-06-05', '2024-06-07',
+      '2024-06-10', '2024-06-12', '2024-06-14',
+      '2024-06-17', '2024-06-19', '2024-06-21',
+      '2024-06-24', '2024-06-26', '2024-06-28',
+    ]);
+
+    const result = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(result.metadata.rhythm?.weekdays).toEqual([1, 3, 5]);
+    expect(result.metadata.rhythm?.label).toBe('every Mon/Wed/Fri');
+  });
+
+  it('should lower confidence when activity falls outside the rhythm', () => {
+    const sessions = sessionsOn([...SATURDAYS, '2024-06-04', '2024-06-19']);
+
+    const result = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(result.metadata.rhythm?.label).toBe('every Saturday');
+    expect(result.metadata.rhythm?.confidence).toBeCloseTo(4 / 6, 5);
+    expect(result.explanations).toContain('You usually train every Saturday');
+  });
+
+  it('should report no rhythm for irregular activity or short windows', () => {
+    const irregular = calculateConsistencyScore({
+      sessions: sessionsOn(['2024-06-04', '2024-06-13', '2024-06-15', '2024-06-27']),
+      referenceDate: REFERENCE_DATE,
+    });
+    expect(irregular.metadata.rhythm).toBeNull();
+
+    const weekly = calculateConsistencyScore({
+      sessions: sessionsOn(['2024-06-29', '2024-06-30']),
+      referenceDate: REFERENCE_DATE,
+      config: WEEKLY_SCORING_CONFIG,
+    });
+    expect(weekly.metadata.rhythm).toBeNull();
+
+    const empty = calculateConsistencyScore({
+      sessions: [],
+      referenceDate: REFERENCE_DATE,
+    });
+    expect(empty.metadata.rhythm).toBeNull();
+  });
+
+  it('should let a rhythm replace the max-gap distribution bonus', () => {
+    const sessions = sessionsOn(SATURDAYS);
+
+    const maxGap = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+    });
+    const rhythm = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+      distributionModel: 'rhythm',
+    });
+
+    expect(maxGap.breakdown.distributionBonus).toBeCloseTo((1 - 7 / 28) * 25, 5);
+    expect(rhythm.breakdown.distributionBonus).toBe(25);
+    expect(rhythm.score).toBeGreaterThan(maxGap.score);
+  });
+
+  it('should fall back to max-gap when no rhythm is detected', () => {
+    const sessions = sessionsOn(['2024-06-04', '2024-06-13', '2024-06-15', '2024-06-27']);
+
+    const maxGap = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+    });
+    const rhythm = calculateConsistencyScore({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+      distributionModel: 'rhythm',
+    });
+
+    expect(rhythm.breakdown).toEqual(maxGap.breakdown);
+  });
+});
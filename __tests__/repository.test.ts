@@ -0,0 +1,462 @@
+/**
+ * Tests for the in-memory SessionRepository and getConsistencyScoreForUser
+ *
+ * Covers: window filtering, ordering, limits, streaming, stored timezone,
+ * pagination, window start in the user's zone, batch fetch, Firestore
+ * document mapping
+ */
+
+import {
+  createInMemorySessionRepository,
+  fetchUserBatch,
+  readPages,
+  sessionWindowStart,
+} from '../src/repository';
+import {
+  createFirestoreSessionRepository,
+  isTransientFirestoreError,
+} from '../src/queries';
+import {
+  InvalidTimezoneError,
+  ReadBudgetExceededError,
+  ScoringConfigError,
+} from '../src/errors';
+import { getConsistencyScoreForUser } from '../src/service';
+import { calculateConsistencyScore } from '../src/scoring';
+import { WEEKLY_SCORING_CONFIG } from '../src/config';
+import { Session } from '../src/types';
+import { REFERENCE_DATE, fakeFirestore, sessionAt } from './helpers/fixtures';
+
+const SESSIONS = [
+  sessionAt('2024-05-01T12:00:00Z'), // before the window
+  sessionAt('2024-06-10T12:00:00Z'),
+  sessionAt('2024-06-20T23:30:00Z'), // 2024-06-21 in Tokyo
+  sessionAt('2024-06-29T12:00:00Z'),
+  sessionAt('2024-07-02T12:00:00Z'), // after the reference date
+];
+
+describe('In-memory SessionRepository', () => {
+  const repo = createInMemorySessionRepository({
+    sessions: { u1: SESSIONS },
+    timezones: { u1: 'Asia/Tokyo' },
+  });
+
+  it('should return the window newest first', async () => {
+    const sessions = await repo.fetchSessions('u1', {
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(sessions.map(s => s.id)).toEqual([
+      'session-2024-06-29T12:00:00Z',
+      'session-2024-06-20T23:30:00Z',
+      'session-2024-06-10T12:00:00Z',
+    ]);
+  });
+
+  it('should honour limits and the configured window', async () => {
+    const limited = await repo.fetchSessions('u1', {
+      referenceDate: REFERENCE_DATE,
+      limit: 1,
+    });
+    expect(limited).toHaveLength(1);
+
+    const weekly = await repo.fetchSessions('u1', {
+      referenceDate: REFERENCE_DATE,
+      config: WEEKLY_SCORING_CONFIG,
+    });
+    expect(weekly.map(s => s.id)).toEqual(['session-2024-06-29T12:00:00Z']);
+  });
+
+  it('should stream the same sessions without a cap', async () => {
+    const streamed: Session[] = [];
+    for await (const session of repo.streamSessions('u1', {
+      referenceDate: REFERENCE_DATE,
+    })) {
+      streamed.push(session);
+    }
+
+    expect(streamed).toEqual(
+      await repo.fetchSessions('u1', { referenceDate: REFERENCE_DATE })
+    );
+  });
+
+  it('should find the last session and batch fetch users', async () => {
+    expect((await repo.getLastSession('u1'))?.id).toBe(
+      'session-2024-07-02T12:00:00Z'
+    );
+    expect(await repo.getLastSession('nobody')).toBeNull();
+
+    const batch = await repo.batchFetchSessions(['u1', 'nobody'], {
+      referenceDate: REFERENCE_DATE,
+    });
+    expect(batch.users.get('u1')?.sessions).toHaveLength(3);
+    expect(batch.users.get('nobody')).toMatchObject({
+      status: 'ok',
+      sessions: [],
+    });
+  });
+
+  it('should accept sessions and timezones after creation', async () => {
+    const empty = createInMemorySessionRepository();
+    empty.addSession('u2', sessionAt('2024-06-30T08:00:00Z'));
+    empty.setUserTimezone('u2', 'Europe/Paris');
+
+    expect(await empty.getUserTimezone('u2')).toBe('Europe/Paris');
+    expect(
+      await empty.fetchSessions('u2', { referenceDate: REFERENCE_DATE })
+    ).toHaveLength(1);
+  });
+});
+
+describe('Paginated window fetch', () => {
+  // 28 days × 10 sessions: a heavy user well past a single 200-doc page
+  const heavy: Session[] = [];
+  for (let day = 1; day <= 28; day++) {
+    for (let n = 0; n < 10; n++) {
+      const iso = `2024-06-${String(day + 2).padStart(2, '0')}T0${n}:00:00Z`;
+      heavy.push(sessionAt(iso));
+    }
+  }
+  const repo = createInMemorySessionRepository({ sessions: { heavy } });
+
+  it('should read past the first page and report full coverage', async () => {
+    const result = await repo.fetchSessionWindow('heavy', {
+      referenceDate: REFERENCE_DATE,
+      pageSize: 100,
+    });
+
+    expect(result.sessions).toHaveLength(280);
+    expect(result.complete).toBe(true);
+    expect(result.reads).toBe(280);
+  });
+
+  it('should stop at the read budget and report partial coverage', async () => {
+    const result = await repo.fetchSessionWindow('heavy', {
+      referenceDate: REFERENCE_DATE,
+      pageSize: 100,
+      maxReads: 200,
+    });
+
+    expect(result.sessions).toHaveLength(200);
+    expect(result.complete).toBe(false);
+    expect(result.reads).toBe(200);
+    // Newest first: the oldest days are the ones missing
+    expect(result.sessions[199].timestamp.toISOString()).toBe(
+      '2024-06-11T00:00:00.000Z'
+    );
+  });
+
+  it('should bill one read for an empty page', async () => {
+    const pages = [[1, 2], []];
+    const result = await readPages(async () => pages.shift()!, {
+      pageSize: 2,
+    });
+
+    expect(result).toEqual({ items: [1, 2], complete: true, reads: 3 });
+  });
+
+  it('should flag partial data in the score metadata', async () => {
+    const partial = await getConsistencyScoreForUser(repo, 'heavy', {
+      referenceDate: REFERENCE_DATE,
+      maxReads: 200,
+    });
+    const full = await getConsistencyScoreForUser(repo, 'heavy', {
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(partial.metadata.partialData).toBe(true);
+    expect(partial.metadata.activeDays).toBe(20);
+    expect(partial.explanations[1]).toBe(
+      'Some older sessions could not be loaded, so this score may be too low'
+    );
+
+    expect(full.metadata.partialData).toBe(false);
+    expect(full.metadata.activeDays).toBe(28);
+  });
+});
+
+describe('Firestore SessionRepository', () => {
+  it('should map documents the same way as the in-memory adapter', async () => {
+    const stored: Session[] = [
+      { ...sessionAt('2024-06-29T12:00:00Z'), intensity: 7, type: 'run' },
+      { id: 'untimed', timestamp: new Date('2024-06-28T12:00:00Z') },
+    ];
+    const firestore = createFirestoreSessionRepository(
+      fakeFirestore({ u1: stored })
+    );
+    const memory = createInMemorySessionRepository({
+      sessions: { u1: stored },
+    });
+    const options = {
+      referenceDate: REFERENCE_DATE,
+      timezone: 'UTC',
+      minSessionDurationSec: 600,
+      effort: {},
+    };
+
+    const { sessions } = await firestore.fetchSessionWindow('u1', options);
+    expect(sessions).toEqual(stored);
+    expect(sessions[1]).not.toHaveProperty('durationSec');
+
+    const score = await getConsistencyScoreForUser(firestore, 'u1', options);
+    expect(score).toEqual(
+      await getConsistencyScoreForUser(memory, 'u1', options)
+    );
+    expect(score.metadata.activeDays).toBe(2);
+    expect(score.effort?.metadata.ratedSessions).toBe(1);
+  });
+});
+
+describe('getConsistencyScoreForUser', () => {
+  const repo = createInMemorySessionRepository({
+    sessions: { u1: SESSIONS },
+    timezones: { u1: 'Asia/Tokyo' },
+  });
+
+  it("should score the user's window in their stored timezone", async () => {
+    const result = await getConsistencyScoreForUser(repo, 'u1', {
+      referenceDate: REFERENCE_DATE,
+    });
+
+    const expected = calculateConsistencyScore({
+      sessions: SESSIONS.slice(1, 4),
+      referenceDate: REFERENCE_DATE,
+      timezone: 'Asia/Tokyo',
+    });
+
+    expect(result).toEqual(expected);
+    expect(result.chartData.some(d => d.date === '2024-06-21' && d.hasActivity))
+      .toBe(true);
+  });
+
+  it('should let an explicit timezone override the stored one', async () => {
+    const result = await getConsistencyScoreForUser(repo, 'u1', {
+      referenceDate: REFERENCE_DATE,
+      timezone: 'UTC',
+    });
+
+    expect(result.chartData.some(d => d.date === '2024-06-20' && d.hasActivity))
+      .toBe(true);
+  });
+
+  it('should fall back to UTC when no timezone is stored', async () => {
+    const noTz = createInMemorySessionRepository({ sessions: { u1: SESSIONS } });
+
+    const result = await getConsistencyScoreForUser(noTz, 'u1', {
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(result.metadata.activeDays).toBe(3);
+    expect(result.chartData[27].date).toBe('2024-06-30');
+  });
+
+  it('should start the fetch window at local midnight in the user zone', async () => {
+    // Reference day is 2024-07-01 in Tokyo, so its window starts at
+    // 2024-06-04 00:00 local (2024-06-03T15:00Z), not 2024-06-03T00:00Z
+    const edge = createInMemorySessionRepository({
+      sessions: {
+        u1: [
+          sessionAt('2024-06-03T10:00:00Z'), // 2024-06-03 19:00 in Tokyo
+          sessionAt('2024-06-03T16:00:00Z'), // 2024-06-04 01:00 in Tokyo
+        ],
+      },
+    });
+
+    const tokyo = await edge.fetchSessions('u1', {
+      referenceDate: REFERENCE_DATE,
+      timezone: 'Asia/Tokyo',
+    });
+    const utc = await edge.fetchSessions('u1', {
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(tokyo.map(s => s.id)).toEqual(['session-2024-06-03T16:00:00Z']);
+    expect(utc).toHaveLength(2);
+  });
+
+  it('should fetch exactly the days the score covers', async () => {
+    const boundary = createInMemorySessionRepository({
+      sessions: {
+        u1: [
+          sessionAt('2024-06-02T12:00:00Z'), // 28 days back: day 29
+          sessionAt('2024-06-03T12:00:00Z'), // First day of the window
+        ],
+      },
+    });
+
+    const { sessions } = await boundary.fetchSessionWindow('u1', {
+      referenceDate: REFERENCE_DATE,
+    });
+    const result = await getConsistencyScoreForUser(boundary, 'u1', {
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(sessions.map(s => s.id)).toEqual(['session-2024-06-03T12:00:00Z']);
+    expect(result.metadata.activeDays).toBe(1);
+    expect(result.chartData.filter(d => d.hasActivity)).toEqual([
+      { date: '2024-06-03', hasActivity: true, sessionCount: 1 },
+    ]);
+    expect(result.explanations[0]).toBe('You trained 1 out of 28 days (4%)');
+  });
+
+  it('should reject an invalid stored timezone with a typed error', async () => {
+    const bad = createInMemorySessionRepository({
+      sessions: { u1: SESSIONS },
+      timezones: { u1: 'Mars/Olympus' },
+    });
+
+    await expect(
+      getConsistencyScoreForUser(bad, 'u1', { referenceDate: REFERENCE_DATE })
+    ).rejects.toThrow(InvalidTimezoneError);
+  });
+});
+
+describe('sessionWindowStart', () => {
+  it("should not depend on the server's timezone", () => {
+    expect(
+      sessionWindowStart(REFERENCE_DATE, 28, 'Asia/Tokyo').toISOString()
+    ).toBe('2024-06-03T15:00:00.000Z');
+    expect(sessionWindowStart(REFERENCE_DATE, 28).toISOString()).toBe(
+      '2024-06-03T00:00:00.000Z'
+    );
+  });
+
+  it('should find local midnight across a DST change', () => {
+    // New York switches to EDT on 2024-03-10; a 4-day window starts on
+    // 2024-03-09 (EST)
+    expect(
+      sessionWindowStart(
+        new Date('2024-03-12T12:00:00Z'),
+        4,
+        'America/New_York'
+      ).toISOString()
+    ).toBe('2024-03-09T05:00:00.000Z');
+    expect(
+      sessionWindowStart(
+        new Date('2024-03-12T12:00:00Z'),
+        2,
+        'America/New_York'
+      ).toISOString()
+    ).toBe('2024-03-11T04:00:00.000Z');
+  });
+});
+
+describe('Batch fetch', () => {
+  /**
+   * Helper: Error shaped like a Firestore client error
+   */
+  function firestoreError(code: number | string): Error {
+    return Object.assign(new Error(`code ${code}`), { code });
+  }
+
+  /**
+   * Helper: `count` sessions, newest first
+   */
+  function sessionsFor(userId: string, count: number): Session[] {
+    return Array.from({ length: count }, (_, i) => ({
+      id: `${userId}-${i}`,
+      timestamp: new Date(Date.UTC(2024, 5, 30 - i, 12)),
+    }));
+  }
+
+  const NO_DELAY = { retry: { baseDelayMs: 0 } };
+
+  it('should never run more than `concurrency` fetches at once', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const result = await fetchUserBatch(
+      ['a', 'b', 'c', 'd', 'e', 'a'],
+      async userId => {
+        peak = Math.max(peak, ++inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return sessionsFor(userId, 1);
+      },
+      { concurrency: 2 }
+    );
+
+    expect(peak).toBe(2);
+    expect([...result.users.keys()]).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(result.reads).toBe(5);
+  });
+
+  it('should retry transient errors and give up on the rest', async () => {
+    const calls: Record<string, number> = {};
+
+    const result = await fetchUserBatch(
+      ['flaky', 'down', 'denied'],
+      async userId => {
+        calls[userId] = (calls[userId] ?? 0) + 1;
+        if (userId === 'flaky' && calls[userId] < 3) throw firestoreError(14);
+        if (userId === 'down') throw firestoreError('unavailable');
+        if (userId === 'denied') throw firestoreError(7);
+        return sessionsFor(userId, 2);
+      },
+      NO_DELAY,
+      isTransientFirestoreError
+    );
+
+    expect(result.users.get('flaky')).toMatchObject({
+      status: 'ok',
+      attempts: 3,
+      reads: 2,
+    });
+    expect(result.users.get('down')).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      sessions: [],
+    });
+    expect(result.users.get('denied')).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+    });
+    expect(result.users.get('denied')?.error?.message).toBe('code 7');
+  });
+
+  it('should flag users with more sessions than the limit', async () => {
+    const repo = createInMemorySessionRepository({
+      sessions: { heavy: SESSIONS, light: SESSIONS.slice(0, 2) },
+    });
+
+    const result = await repo.batchFetchSessions(['heavy', 'light'], {
+      referenceDate: new Date('2024-07-03T00:00:00Z'),
+      days: 60,
+      limit: 2,
+    });
+
+    expect(result.users.get('heavy')).toMatchObject({ status: 'truncated' });
+    expect(result.users.get('heavy')?.sessions).toHaveLength(2);
+    expect(result.users.get('light')).toMatchObject({ status: 'ok' });
+  });
+
+  it('should stop starting fetches once the read budget could be exceeded', async () => {
+    const fetched: string[] = [];
+
+    const result = await fetchUserBatch(
+      ['a', 'b', 'c'],
+      async userId => {
+        fetched.push(userId);
+        return sessionsFor(userId, 3);
+      },
+      { limit: 5, maxReads: 8, concurrency: 1 }
+    );
+
+    // Each fetch reserves limit + 1 = 6 reads: a spends 3, b would reach 9
+    expect(fetched).toEqual(['a']);
+    expect(result.reads).toBe(3);
+    expect(result.users.get('b')).toMatchObject({ status: 'failed', attempts: 0 });
+    expect(result.users.get('c')?.error).toBeInstanceOf(ReadBudgetExceededError);
+  });
+
+  it('should reject invalid batch options', async () => {
+    const fetchNothing = async () => [];
+
+    await expect(
+      fetchUserBatch(['a'], fetchNothing, { concurrency: 0 })
+    ).rejects.toThrow(ScoringConfigError);
+    await expect(
+      fetchUserBatch(['a'], fetchNothing, { retry: { maxAttempts: 0 } })
+    ).rejects.toThrow(ScoringConfigError);
+  });
+});
@@ -5,6 +5,7 @@
  */
 
 import { calculateConsistencyScore } from '../src/scoring';
+import { InvalidTimezoneError } from '../src/errors';
 import { Session } from '../src/types';
 
 /**
@@ -106,9 +107,9 @@ describe('Consistency Score System', () => {
       const sessions: Session[] = [];
       for (let i = 0; i < 10; i++) {
         const d = Math.floor(i * 2.8);
-        const m = createSession(d);
+        const m = { ...createSession(d), id: `morning-${d}` };
         m.timestamp.setHours(8);
-        const e = createSession(d);
+        const e = { ...createSession(d), id: `evening-${d}` };
         e.timestamp.setHours(18);
         sessions.push(m, e);
       }
@@ -168,13 +169,19 @@ describe('Consistency Score System', () => {
       ];
 
       expect(
-        calculateConsistencyScore({ sessions, timezone: 'UTC' })
-          .metadata.activeDays
+        calculateConsistencyScore({
+          sessions,
+          referenceDate: date,
+          timezone: 'UTC',
+        }).metadata.activeDays
       ).toBe(1);
 
       expect(
-        calculateConsistencyScore({ sessions, timezone: 'Asia/Tokyo' })
-          .metadata.activeDays
+        calculateConsistencyScore({
+          sessions,
+          referenceDate: date,
+          timezone: 'Asia/Tokyo',
+        }).metadata.activeDays
       ).toBe(1);
     });
 
@@ -192,6 +199,41 @@ describe('Consistency Score System', () => {
 
       expect(result.metadata.activeDays).toBe(1);
     });
+
+    it('should bucket sessions by the zone they were recorded in', () => {
+      // 2024-06-20T23:30Z is the 20th in New York but the 21st in Tokyo
+      const sessions: Session[] = [
+        { id: 'home', timestamp: new Date('2024-06-20T14:00:00Z') },
+        {
+          id: 'trip',
+          timestamp: new Date('2024-06-20T23:30:00Z'),
+          timezone: 'Asia/Tokyo',
+        },
+      ];
+
+      const result = calculateConsistencyScore({
+        sessions,
+        timezone: 'America/New_York',
+        referenceDate: new Date('2024-06-30T16:00:00Z'),
+      });
+
+      expect(result.metadata.activeDays).toBe(2);
+      expect(
+        result.chartData.filter(d => d.hasActivity).map(d => d.date)
+      ).toEqual(['2024-06-20', '2024-06-21']);
+    });
+
+    it('should reject an invalid user zone with a typed error', () => {
+      expect(() =>
+        calculateConsistencyScore({ sessions: [], timezone: 'Mars/Olympus' })
+      ).toThrow(InvalidTimezoneError);
+
+      // A session's own invalid zone only quarantines that session
+      const result = calculateConsistencyScore({
+        sessions: [{ id: 'a', timestamp: new Date(), timezone: 'Not/AZone' }],
+      });
+      expect(result.metadata.activeDays).toBe(0);
+    });
   });
 
   /* ------------------------------------------------------------------ */
@@ -276,6 +318,71 @@ describe('Consistency Score System', () => {
     });
   });
 
+  /* ------------------------------------------------------------------ */
+  /* TEST 5: README Worked Example (std-dev distribution model)          */
+  /* ------------------------------------------------------------------ */
+  describe('README Worked Example', () => {
+    // Day 28 of the window is the reference day (2024-06-30)
+    const sessions: Session[] = [1, 2, 5, 8, 9, 10, 15, 22, 28].map(day => {
+      const timestamp = new Date('2024-06-30T12:00:00Z');
+      timestamp.setUTCDate(timestamp.getUTCDate() - (28 - day));
+      return { id: `day-${day}`, timestamp, durationSec: 1800 };
+    });
+
+    const result = calculateConsistencyScore({
+      sessions,
+      referenceDate: new Date('2024-06-30T18:00:00Z'),
+      distributionModel: 'std-dev',
+    });
+
+    it('should expose the gap statistics from the worked example', () => {
+      const { gapStats } = result.metadata;
+
+      expect(gapStats.count).toBe(8);
+      expect(gapStats.mean).toBeCloseTo(3.375, 3);
+      expect(gapStats.stdDev).toBeCloseTo(2.23, 2);
+      expect(gapStats.normalizationBound).toBeCloseTo(6.28, 2);
+    });
+
+    it('should reproduce every step of the worked example', () => {
+      expect(result.breakdown.baseScore).toBeCloseTo(19.3, 1);
+      expect(result.breakdown.distributionBonus).toBeCloseTo(16.1, 1);
+      expect(result.breakdown.streakBonus).toBe(2);
+      expect(result.breakdown.recencyBonus).toBe(5);
+      expect(result.score).toBe(42);
+
+      expect(result.explanations).toEqual([
+        'You trained 9 out of 28 days (32%)',
+        'Your sessions are fairly well spaced',
+        'Longest streak: 3 days',
+        'You exercised today—great momentum!',
+      ]);
+    });
+
+    it('should keep max-gap as the default distribution model', () => {
+      const byDefault = calculateConsistencyScore({
+        sessions,
+        referenceDate: new Date('2024-06-30T18:00:00Z'),
+      });
+
+      expect(byDefault.breakdown.distributionBonus).toBeCloseTo(
+        (1 - 7 / 28) * 25,
+        5
+      );
+      expect(byDefault.metadata.gapStats).toEqual(result.metadata.gapStats);
+    });
+
+    it('should give evenly spaced gaps the full std-dev bonus', () => {
+      const even = calculateConsistencyScore({
+        sessions: [0, 7, 14, 21].map(d => createSession(d)),
+        distributionModel: 'std-dev',
+      });
+
+      expect(even.metadata.gapStats.stdDev).toBe(0);
+      expect(even.breakdown.distributionBonus).toBe(25);
+    });
+  });
+
   /* ------------------------------------------------------------------ */
   /* Integration                                                         */
   /* ------------------------------------------------------------------ */
@@ -0,0 +1,140 @@
+/**
+ * Tests for streak protection
+ *
+ * Covers: grace today, rest days, freezes, longest streak parity,
+ * explanations, validation
+ */
+
+import { analyzeStreaks } from '../src/streaks';
+import { calculateConsistencyScore } from '../src/scoring';
+import { ScoringConfigError } from '../src/errors';
+import { ActiveDay, Session } from '../src/types';
+
+// 2024-06-30 is a Sunday
+const REFERENCE_DAY = '2024-06-30';
+const REFERENCE_DATE = new Date('2024-06-30T18:00:00Z');
+
+/**
+ * Helper: Active days for June dates
+ */
+function days(...dates: number[]): ActiveDay[] {
+  return dates.map(d => ({
+    date: `2024-06-${String(d).padStart(2, '0')}`,
+    sessionCount: 1,
+    totalDurationSec: 1800,
+  }));
+}
+
+/**
+ * Helper: UTC-noon sessions for June dates
+ */
+function sessions(...dates: number[]): Session[] {
+  return days(...dates).map(d => ({
+    id: d.date,
+    timestamp: new Date(`${d.date}T12:00:00Z`),
+    durationSec: 1800,
+  }));
+}
+
+describe('Streak Protection', () => {
+  it('should give today a grace period but not yesterday', () => {
+    expect(analyzeStreaks(days(27, 28, 29), REFERENCE_DAY, 28).current).toBe(3);
+    expect(analyzeStreaks(days(26, 27, 28), REFERENCE_DAY, 28).current).toBe(0);
+
+    expect(
+      analyzeStreaks(days(27, 28, 29), REFERENCE_DAY, 28, {
+        graceToday: false,
+      }).current
+    ).toBe(0);
+  });
+
+  it('should let planned rest days pass without breaking the streak', () => {
+    // Sat 22, (Sun 23 rest), Mon 24 … Sat 29, (Sun 30 today)
+    const active = days(22, 24, 25, 26, 27, 28, 29);
+
+    expect(analyzeStreaks(active, REFERENCE_DAY, 28).longest).toBe(6);
+    expect(
+      analyzeStreaks(active, REFERENCE_DAY, 28, { restDays: [0] })
+    ).toEqual({ current: 7, longest: 7, frozenDays: [] });
+  });
+
+  it('should bridge missed days with freezes, oldest first', () => {
+    const active = days(20, 21, 23, 24, 26, 27, 28, 29, 30);
+
+    const result = analyzeStreaks(active, REFERENCE_DAY, 28, {
+      freezesPerWindow: 1,
+    });
+
+    // The 22nd uses the only freeze; the 25th breaks the streak
+    expect(result).toEqual({
+      current: 5,
+      longest: 5,
+      frozenDays: ['2024-06-22'],
+    });
+  });
+
+  it('should not spend freezes on a streak that ends anyway', () => {
+    const result = analyzeStreaks(days(10, 11, 14, 15, 29), REFERENCE_DAY, 28, {
+      freezesPerWindow: 1,
+    });
+
+    expect(result.frozenDays).toEqual([]);
+    expect(result.longest).toBe(2);
+  });
+
+  it('should use a freeze to keep the current streak alive', () => {
+    const result = analyzeStreaks(days(26, 27, 28), REFERENCE_DAY, 28, {
+      freezesPerWindow: 2,
+    });
+
+    expect(result).toEqual({
+      current: 3,
+      longest: 3,
+      frozenDays: ['2024-06-29'],
+    });
+  });
+
+  it('should apply the rules to the score, metadata and explanations', () => {
+    const input = {
+      sessions: sessions(24, 25, 27, 28, 29),
+      referenceDate: REFERENCE_DATE,
+    };
+
+    const strict = calculateConsistencyScore(input);
+    const protectedStreak = calculateConsistencyScore({
+      ...input,
+      streak: { freezesPerWindow: 1 },
+    });
+
+    expect(strict.metadata).toMatchObject({
+      currentStreak: 3,
+      longestStreak: 3,
+    });
+    expect(protectedStreak.metadata).toMatchObject({
+      currentStreak: 5,
+      longestStreak: 5,
+      frozenDays: ['2024-06-26'],
+    });
+    expect(protectedStreak.breakdown.streakBonus).toBe(10);
+    expect(protectedStreak.explanations).toContain(
+      'A streak freeze kept your streak going'
+    );
+  });
+
+  it('should reject invalid rules', () => {
+    const base = { sessions: [], referenceDate: REFERENCE_DATE };
+
+    expect(() =>
+      calculateConsistencyScore({ ...base, streak: { restDays: [7] } })
+    ).toThrow(ScoringConfigError);
+    expect(() =>
+      calculateConsistencyScore({
+        ...base,
+        streak: { restDays: [0, 1, 2, 3, 4, 5, 6] },
+      })
+    ).toThrow(ScoringConfigError);
+    expect(() =>
+      calculateConsistencyScore({ ...base, streak: { freezesPerWindow: 1.5 } })
+    ).toThrow(ScoringConfigError);
+  });
+});
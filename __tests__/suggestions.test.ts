@@ -0,0 +1,114 @@
+/**
+ * Tests for improvement suggestions
+ *
+ * Covers: exact projections, history-based weekly plans, ranking,
+ * skipped actions, localization
+ */
+
+import { suggestImprovements } from '../src/suggestions';
+import { calculateConsistencyScore } from '../src/scoring';
+import { REFERENCE_DATE, sessionOn, sessionsOn } from './helpers/fixtures';
+
+// Twice a week, last session three days ago
+const SESSIONS = sessionsOn([
+  '2024-06-10', '2024-06-13', '2024-06-17', '2024-06-20', '2024-06-24',
+  '2024-06-27',
+]);
+
+describe('suggestImprovements', () => {
+  const current = calculateConsistencyScore({
+    sessions: SESSIONS,
+    referenceDate: REFERENCE_DATE,
+  });
+  const suggestions = suggestImprovements({
+    sessions: SESSIONS,
+    referenceDate: REFERENCE_DATE,
+  });
+
+  it('should project exactly what the scorer would report', () => {
+    const today = suggestions.find(s => s.action === 'train-today')!;
+    const tomorrow = suggestions.find(s => s.action === 'train-tomorrow')!;
+
+    expect(today.days).toEqual(['2024-06-30']);
+    expect(today.projectedScore).toBe(
+      calculateConsistencyScore({
+        sessions: [...SESSIONS, sessionOn('2024-06-30')],
+        referenceDate: REFERENCE_DATE,
+      }).score
+    );
+    expect(today.delta).toBe(today.projectedScore - current.score);
+
+    expect(tomorrow.projectedScore).toBe(
+      calculateConsistencyScore({
+        sessions: [...SESSIONS, sessionOn('2024-07-01')],
+        referenceDate: new Date('2024-07-01T18:00:00Z'),
+      }).score
+    );
+  });
+
+  it("should plan next week on the user's usual weekdays", () => {
+    const week = suggestions.find(s => s.action === 'spread-next-week')!;
+
+    // 2 active days per week now → plan 3: Monday and Thursday as usual,
+    // then Sunday to close the gap after Thursday
+    expect(week.days).toEqual(['2024-07-01', '2024-07-04', '2024-07-07']);
+    expect(week.projectedScore).toBe(
+      calculateConsistencyScore({
+        sessions: [...SESSIONS, ...sessionsOn(week.days)],
+        referenceDate: new Date('2024-07-07T18:00:00Z'),
+      }).score
+    );
+  });
+
+  it('should plan into the longest gaps without a weekly rhythm', () => {
+    // Same rate as SESSIONS, no rhythm, last session on Friday
+    const irregular = sessionsOn([
+      '2024-06-05', '2024-06-12', '2024-06-16', '2024-06-25', '2024-06-26',
+      '2024-06-28',
+    ]);
+
+    const [week] = suggestImprovements({
+      sessions: irregular,
+      referenceDate: REFERENCE_DATE,
+    }).filter(s => s.action === 'spread-next-week');
+
+    expect(week.days).toEqual(['2024-07-02', '2024-07-04', '2024-07-07']);
+  });
+
+  it('should rank by gain and render the message', () => {
+    const deltas = suggestions.map(s => s.delta);
+    expect(deltas).toEqual([...deltas].sort((a, b) => b - a));
+    expect(deltas.every(d => d > 0)).toBe(true);
+
+    const today = suggestions.find(s => s.action === 'train-today')!;
+    expect(today.text).toBe(
+      `Training today would raise your score to ${today.projectedScore} (+${today.delta})`
+    );
+    expect(today.message).toMatchObject({
+      key: 'suggestion.today',
+      tone: 'positive',
+      component: 'baseScore',
+    });
+  });
+
+  it('should skip training today when the user already has', () => {
+    const result = suggestImprovements({
+      sessions: [...SESSIONS, sessionOn('2024-06-30')],
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(result.map(s => s.action)).not.toContain('train-today');
+  });
+
+  it('should localize the suggestion text', () => {
+    const [week] = suggestImprovements({
+      sessions: SESSIONS,
+      referenceDate: REFERENCE_DATE,
+      locale: 'es',
+    }).filter(s => s.action === 'spread-next-week');
+
+    expect(week.text).toBe(
+      `Si entrenas la próxima semana (lun/jue/dom), tu puntuación subiría a ${week.projectedScore} (+${week.delta})`
+    );
+  });
+});
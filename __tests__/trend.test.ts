@@ -0,0 +1,125 @@
+/**
+ * Tests for trend detection
+ *
+ * Covers: window split, direction labels, component deltas, explanation,
+ * localization
+ */
+
+import { calculateScoreTrend } from '../src/trend';
+import { WEEKLY_SCORING_CONFIG } from '../src/config';
+import { REFERENCE_DATE, sessionsOn } from './helpers/fixtures';
+
+// Current window: 2024-06-03 … 2024-06-30; previous: 2024-05-06 … 2024-06-02
+const CLUSTERED_PREVIOUS = ['2024-05-06', '2024-05-08', '2024-05-10', '2024-06-02'];
+const EVEN_CURRENT = ['2024-06-09', '2024-06-16', '2024-06-23', '2024-06-30'];
+
+describe('Score Trend', () => {
+  it('should detect improvement and name the component that drove it', () => {
+    const sessions = sessionsOn([...CLUSTERED_PREVIOUS, ...EVEN_CURRENT]);
+
+    const trend = calculateScoreTrend({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(trend.current.metadata.activeDays).toBe(4);
+    expect(trend.previous.metadata.activeDays).toBe(4);
+    expect(trend.previous.chartData[27].date).toBe('2024-06-02');
+
+    expect(trend.current.score).toBe(34);
+    expect(trend.previous.score).toBe(20);
+    expect(trend.delta).toBe(14);
+    expect(trend.direction).toBe('improving');
+
+    expect(trend.componentDeltas.baseScore).toBeCloseTo(0, 5);
+    expect(trend.componentDeltas.distributionBonus).toBeCloseTo(
+      ((23 - 7) / 28) * 25,
+      5
+    );
+    expect(trend.componentDeltas.streakBonus).toBe(0);
+    expect(trend.componentDeltas.recencyBonus).toBe(0);
+
+    expect(trend.explanation).toBe(
+      'Up 14 points from last month, mostly from fewer long gaps'
+    );
+    expect(trend.message).toEqual({
+      key: 'trend.up',
+      params: { points: 14, windowDays: 28, driver: 'distributionBonus' },
+      tone: 'positive',
+      component: 'distributionBonus',
+    });
+  });
+
+  it('should detect decline when recent activity drops off', () => {
+    const sessions = sessionsOn([
+      '2024-05-20', '2024-05-22', '2024-05-24', '2024-05-26',
+      '2024-05-28', '2024-05-30', '2024-06-01', '2024-06-02',
+      '2024-06-05',
+    ]);
+
+    const trend = calculateScoreTrend({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(trend.direction).toBe('declining');
+    expect(trend.delta).toBeLessThan(0);
+    expect(trend.explanation).toMatch(/^Down \d+ points from last month/);
+  });
+
+  it('should report steady when both windows look the same', () => {
+    const sessions = sessionsOn([
+      '2024-05-13', '2024-05-20', '2024-05-27', '2024-06-02',
+      '2024-06-10', '2024-06-17', '2024-06-24', '2024-06-30',
+    ]);
+
+    const trend = calculateScoreTrend({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(trend.delta).toBe(0);
+    expect(trend.direction).toBe('steady');
+    expect(trend.explanation).toBe('About the same as last month');
+  });
+
+  it('should follow the configured window length', () => {
+    const sessions = sessionsOn(['2024-06-20', '2024-06-26', '2024-06-28', '2024-06-30']);
+
+    const trend = calculateScoreTrend({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+      config: WEEKLY_SCORING_CONFIG,
+    });
+
+    expect(trend.current.chartData).toHaveLength(7);
+    expect(trend.current.metadata.activeDays).toBe(3);
+    expect(trend.previous.metadata.activeDays).toBe(1);
+    expect(trend.direction).toBe('improving');
+    expect(trend.explanation).toMatch(/from last week/);
+  });
+
+  it('should localize the explanation', () => {
+    const sessions = sessionsOn(['2024-06-20', '2024-06-26', '2024-06-28', '2024-06-30']);
+
+    const weekly = calculateScoreTrend({
+      sessions,
+      referenceDate: REFERENCE_DATE,
+      config: WEEKLY_SCORING_CONFIG,
+      locale: 'es',
+    });
+    const steady = calculateScoreTrend({
+      sessions: [],
+      referenceDate: REFERENCE_DATE,
+      config: { ...WEEKLY_SCORING_CONFIG, windowDays: 14 },
+      locale: 'es',
+    });
+
+    expect(weekly.explanation).toMatch(
+      /^Subes \d+ puntos desde la semana pasada, sobre todo por /
+    );
+    expect(steady.explanation).toBe(
+      'Más o menos igual que los 14 días anteriores'
+    );
+  });
+});
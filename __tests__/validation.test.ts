@@ -0,0 +1,246 @@
+/**
+ * Tests for raw-session validation
+ *
+ * Covers: dedupe by id, invalid/pre-epoch/future timestamps, session
+ * timezones, absurd durations, the data-quality report, strict mode,
+ * trace statuses
+ */
+
+import { calculateConsistencyScore } from '../src/scoring';
+import { validateSessions } from '../src/validation';
+import { calculateScoreHistory } from '../src/history';
+import { calculateScoreTrend } from '../src/trend';
+import { suggestImprovements } from '../src/suggestions';
+import { buildExportRows } from '../src/export';
+import { buildMonthGrid } from '../src/charts';
+import {
+  applySessionWrite,
+  createInMemoryScoreCacheStore,
+} from '../src/cache';
+import {
+  InvalidTimezoneError,
+  ScoringConfigError,
+  SessionValidationError,
+} from '../src/errors';
+import { Session } from '../src/types';
+import { REFERENCE_DATE, sessionOn, sessionsOn } from './helpers/fixtures';
+
+const CLEAN = sessionsOn(['2024-06-24', '2024-06-26', '2024-06-28']);
+
+const DIRTY: Session[] = [
+  ...CLEAN,
+  sessionOn('2024-06-29', { id: 'session-2024-06-26' }), // Reused id
+  { id: 'nan', timestamp: new Date('not a date') },
+  { id: 'epoch', timestamp: new Date(-1000) },
+  sessionOn('2024-07-01', { id: 'tomorrow' }),
+  sessionOn('2024-06-27', { id: 'marathon', durationSec: 3 * 24 * 60 * 60 }),
+  sessionOn('2024-06-27', { id: 'negative', durationSec: -60 }),
+];
+
+const CLEAN_INPUT = () => ({
+  sessions: CLEAN,
+  referenceDate: REFERENCE_DATE,
+});
+
+describe('Session Validation', () => {
+  it('should quarantine each bad session for its first issue', () => {
+    const { sessions, quarantined, report } = validateSessions(
+      DIRTY,
+      '2024-06-30',
+      'UTC'
+    );
+
+    expect(sessions).toEqual(CLEAN);
+    expect(quarantined.map(q => [q.session.id, q.issue])).toEqual([
+      ['session-2024-06-26', 'duplicate-id'],
+      ['nan', 'invalid-timestamp'],
+      ['epoch', 'pre-epoch-timestamp'],
+      ['tomorrow', 'future-timestamp'],
+      ['marathon', 'absurd-duration'],
+      ['negative', 'absurd-duration'],
+    ]);
+    expect(report).toMatchObject({ received: 9, accepted: 3, quarantined: 6 });
+    expect(report.issues['absurd-duration']).toEqual({
+      count: 2,
+      sessionIds: ['marathon', 'negative'],
+    });
+  });
+
+  it('should keep the first valid copy of a duplicated id', () => {
+    const broken = { id: 'a', timestamp: new Date(NaN) };
+    const valid = sessionOn('2024-06-20', { id: 'a' });
+
+    const { sessions, report } = validateSessions(
+      [broken, valid, valid],
+      '2024-06-30',
+      'UTC'
+    );
+
+    expect(sessions).toEqual([valid]);
+    expect(report.issues['invalid-timestamp'].count).toBe(1);
+    expect(report.issues['duplicate-id'].count).toBe(1);
+  });
+
+  it('should judge the future by local day, not instant', () => {
+    // Later today in UTC; already tomorrow in Tokyo
+    const tonight = { id: 'tonight', timestamp: new Date('2024-06-30T20:00:00Z') };
+    const abroad = { ...tonight, id: 'abroad', timezone: 'Asia/Tokyo' };
+
+    const { quarantined } = validateSessions(
+      [tonight, abroad],
+      '2024-06-30',
+      'UTC'
+    );
+
+    expect(quarantined).toEqual([{ session: abroad, issue: 'future-timestamp' }]);
+  });
+
+  it('should quarantine a session with an unknown timezone', () => {
+    const lost = sessionOn('2024-06-27', {
+      id: 'lost',
+      timezone: 'Pacific Time',
+    });
+    const input = { sessions: [...CLEAN, lost], referenceDate: REFERENCE_DATE };
+
+    const result = calculateConsistencyScore({ ...input, validation: {} });
+
+    expect(result.score).toBe(calculateConsistencyScore(CLEAN_INPUT()).score);
+    expect(result.dataQuality!.issues['invalid-timezone']).toEqual({
+      count: 1,
+      sessionIds: ['lost'],
+    });
+    expect(
+      calculateConsistencyScore({ ...input, trace: true }).trace!.sessions[3]
+    ).toMatchObject({ localDate: null, issue: 'invalid-timezone' });
+    expect(() =>
+      calculateConsistencyScore({ ...input, validation: { strict: true } })
+    ).toThrow(SessionValidationError);
+    expect(() =>
+      calculateConsistencyScore({ ...input, timezone: 'Pacific Time' })
+    ).toThrow(InvalidTimezoneError);
+  });
+
+  it('should score only accepted sessions and report on request', () => {
+    const result = calculateConsistencyScore({
+      sessions: DIRTY,
+      referenceDate: REFERENCE_DATE,
+      validation: {},
+    });
+    const clean = calculateConsistencyScore({
+      sessions: CLEAN,
+      referenceDate: REFERENCE_DATE,
+    });
+
+    expect(result.score).toBe(clean.score);
+    expect(result.metadata.totalSessions).toBe(3);
+    expect(result.dataQuality?.quarantined).toBe(6);
+    expect(clean.dataQuality).toBeUndefined();
+  });
+
+  it('should quarantine the same sessions in every entry point', async () => {
+    const input = { sessions: DIRTY, referenceDate: REFERENCE_DATE };
+    const expected = calculateConsistencyScore(CLEAN_INPUT());
+
+    const [today] = calculateScoreHistory({
+      ...input,
+      startDate: REFERENCE_DATE,
+      endDate: REFERENCE_DATE,
+    });
+    expect(today.score).toBe(expected.score);
+    expect(calculateScoreTrend(input).current).toEqual(expected);
+    expect(suggestImprovements(input)).toEqual(
+      suggestImprovements(CLEAN_INPUT())
+    );
+    expect(
+      buildExportRows({
+        ...input,
+        startDate: REFERENCE_DATE,
+        endDate: REFERENCE_DATE,
+      })
+    ).toEqual([
+      {
+        date: '2024-06-30',
+        active: false,
+        sessionCount: 0,
+        totalDurationSec: 0,
+        score: expected.score,
+      },
+    ]);
+    expect(buildMonthGrid(input).activeDays).toBe(3);
+
+    // Cache writes replace by id, so the reused id is left out here
+    const store = createInMemoryScoreCacheStore();
+    let cached = null;
+    for (const session of DIRTY.filter((_, i) => i !== CLEAN.length)) {
+      cached = await applySessionWrite(store, 'u1', session, input);
+    }
+    expect(cached?.score).toBe(expected.score);
+
+    expect(() =>
+      calculateScoreHistory({
+        ...input,
+        startDate: REFERENCE_DATE,
+        validation: { strict: true },
+      })
+    ).toThrow(SessionValidationError);
+  });
+
+  it('should throw a typed error in strict mode', () => {
+    const strict = () =>
+      calculateConsistencyScore({
+        sessions: DIRTY,
+        referenceDate: REFERENCE_DATE,
+        validation: { strict: true },
+      });
+
+    expect(strict).toThrow(SessionValidationError);
+    expect(strict).toThrow(
+      '6 of 9 sessions failed validation: invalid-timestamp (1), ' +
+        'pre-epoch-timestamp (1), future-timestamp (1), ' +
+        'absurd-duration (2), duplicate-id (1)'
+    );
+
+    try {
+      strict();
+    } catch (error) {
+      expect((error as SessionValidationError).report.accepted).toBe(3);
+    }
+
+    expect(() =>
+      calculateConsistencyScore({
+        sessions: CLEAN,
+        referenceDate: REFERENCE_DATE,
+        validation: { strict: true },
+      })
+    ).not.toThrow();
+  });
+
+  it('should respect maxDurationSec and reject invalid limits', () => {
+    const { report } = validateSessions(CLEAN, '2024-06-30', 'UTC', {
+      maxDurationSec: 600,
+    });
+    expect(report.issues['absurd-duration'].count).toBe(3);
+
+    expect(() =>
+      validateSessions(CLEAN, '2024-06-30', 'UTC', { maxDurationSec: 0 })
+    ).toThrow(ScoringConfigError);
+  });
+
+  it('should mark quarantined sessions in the trace', () => {
+    const { trace } = calculateConsistencyScore({
+      sessions: DIRTY,
+      referenceDate: REFERENCE_DATE,
+      trace: true,
+    });
+
+    expect(trace!.sessions.find(s => s.id === 'nan')).toEqual({
+      id: 'nan',
+      timezone: 'UTC',
+      localDate: null,
+      inWindow: false,
+      status: 'quarantined',
+      issue: 'invalid-timestamp',
+    });
+    expect(trace!.sessions.filter(s => s.status === 'counted')).toHaveLength(3);
+  });
+});
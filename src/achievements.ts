@@ -0,0 +1,246 @@
+/**
+ * Milestones and achievements
+ *
+ * Definitions are pure checks over a score (and optionally its daily
+ * history), registered by ID. Awards are stored once per user and ID in
+ * users/{userId}/consistency/achievements:
+ * - An ID already awarded is never evaluated or granted again, so
+ *   retried triggers and overlapping windows can't double-award
+ * - Evaluation runs inside the store update, so concurrent calls for
+ *   the same user see each other's awards
+ */
+
+import { Firestore } from 'firebase-admin/firestore';
+import {
+  AchievementAward,
+  AchievementContext,
+  AchievementDefinition,
+  AchievementDocument,
+  AchievementOptions,
+  AchievementResult,
+  AchievementUnlock,
+  ConsistencyScore,
+  ScoreHistoryPoint,
+} from './types';
+import { addDays, daysBetween } from './dates';
+import {
+  UserDocumentStore,
+  createFirestoreUserDocumentStore,
+  createInMemoryUserDocumentStore,
+} from './store';
+
+/**
+ * Storage for award documents (users/{userId}/consistency/achievements)
+ */
+export type AchievementStore = UserDocumentStore<AchievementDocument>;
+
+/**
+ * Built-in milestones; extend with `{ ...DEFAULT_ACHIEVEMENTS, id: def }`
+ *
+ * IDs are persisted in award records: never rename or reuse one.
+ */
+export const DEFAULT_ACHIEVEMENTS: Record<string, AchievementDefinition> = {
+  'first-7-day-streak': {
+    description: 'First streak of 7 days',
+    evaluate: ({ score }) =>
+      score.metadata.longestStreak >= 7
+        ? {
+            achievedOn: referenceDayOf(score),
+            details: { longestStreak: score.metadata.longestStreak },
+          }
+        : null,
+  },
+
+  'first-month-above-70': {
+    description: 'First calendar month with an average score above 70',
+    evaluate: ({ history = [] }) => firstMonthAbove(history, 70),
+  },
+
+  '20-active-days': {
+    description: '20 active days within one scoring window',
+    evaluate: ({ score }) => {
+      const active = score.chartData.filter(d => d.hasActivity);
+      return active.length >= 20
+        ? {
+            achievedOn: active[19].date,
+            details: { activeDays: active.length },
+          }
+        : null;
+    },
+  },
+
+  'comeback-after-14-day-gap': {
+    description: 'Trained again after a gap of 14 days or more',
+    evaluate: ({ score, lastActiveBeforeWindow }) => {
+      const active = score.chartData
+        .filter(d => d.hasActivity)
+        .map(d => d.date);
+
+      // Include the gap into the window: a lapse can outlast the window
+      if (lastActiveBeforeWindow !== undefined) {
+        active.unshift(lastActiveBeforeWindow);
+      }
+
+      for (let i = 1; i < active.length; i++) {
+        const gap = daysBetween(active[i - 1], active[i]);
+        if (gap >= 14) return { achievedOn: active[i], details: { gap } };
+      }
+      return null;
+    },
+  },
+};
+
+/**
+ * Definitions whose milestone is reached, skipping IDs in `awarded`
+ *
+ * Pure: nothing is stored.
+ */
+export function evaluateAchievements(
+  context: AchievementContext,
+  awarded: Iterable<string> = [],
+  definitions: Record<string, AchievementDefinition> = DEFAULT_ACHIEVEMENTS
+): { achievementId: string; unlock: AchievementUnlock }[] {
+  const skip = new Set(awarded);
+
+  return Object.entries(definitions)
+    .filter(([id]) => !skip.has(id))
+    .map(([id, definition]) => ({
+      achievementId: id,
+      unlock: definition.evaluate(context),
+    }))
+    .filter(
+      (e): e is { achievementId: string; unlock: AchievementUnlock } =>
+        e.unlock !== null
+    );
+}
+
+/**
+ * Evaluate and persist newly reached milestones for a user
+ *
+ * Each achievement is granted at most once; calling again with the same
+ * (or a later) score only reports what the user already holds.
+ */
+export async function awardAchievements(
+  store: AchievementStore,
+  userId: string,
+  context: AchievementContext,
+  options: AchievementOptions = {}
+): Promise<AchievementResult> {
+  const { definitions = DEFAULT_ACHIEVEMENTS, awardedAt = new Date() } =
+    options;
+  let newlyAwarded: AchievementAward[] = [];
+
+  const doc = await store.update(userId, current => {
+    const awards = { ...current?.awards };
+
+    // Recomputed on every attempt: transactions may retry this function
+    newlyAwarded = evaluateAchievements(
+      context,
+      Object.keys(awards),
+      definitions
+    ).map(({ achievementId, unlock }) => ({
+      achievementId,
+      achievedOn: unlock.achievedOn,
+      awardedAt: awardedAt.toISOString(),
+      details: unlock.details ?? {},
+    }));
+
+    for (const award of newlyAwarded) {
+      awards[award.achievementId] = award;
+    }
+
+    return { userId, awards };
+  });
+
+  return { newlyAwarded, awards: sortAwards(doc.awards) };
+}
+
+/**
+ * Awards a user holds, oldest first (empty if none)
+ */
+export async function getAchievements(
+  store: AchievementStore,
+  userId: string
+): Promise<AchievementAward[]> {
+  const doc = await store.read(userId);
+  return doc ? sortAwards(doc.awards) : [];
+}
+
+/**
+ * Firestore-backed store (runs updates in a transaction)
+ */
+export function createFirestoreAchievementStore(
+  db: Firestore
+): AchievementStore {
+  return createFirestoreUserDocumentStore(db, 'achievements');
+}
+
+/**
+ * In-memory store for tests and local tools
+ */
+export function createInMemoryAchievementStore(): AchievementStore {
+  return createInMemoryUserDocumentStore();
+}
+
+/**
+ * Day the score is as of (last chart day)
+ */
+function referenceDayOf(score: ConsistencyScore): string {
+  return score.chartData[score.chartData.length - 1].date;
+}
+
+/**
+ * First complete calendar month in history whose mean score beats `min`
+ */
+function firstMonthAbove(
+  history: ScoreHistoryPoint[],
+  min: number
+): AchievementUnlock | null {
+  const months = new Map<
+    string,
+    { first: string; last: string; scores: number[] }
+  >();
+
+  for (const point of history) {
+    const month = point.date.slice(0, 7);
+    const entry = months.get(month);
+    if (entry) {
+      entry.last = point.date;
+      entry.scores.push(point.score);
+    } else {
+      months.set(month, {
+        first: point.date,
+        last: point.date,
+        scores: [point.score],
+      });
+    }
+  }
+
+  for (const [month, { first, last, scores }] of months) {
+    const complete =
+      first === `${month}-01` &&
+      addDays(last, 1).slice(0, 7) !== month &&
+      scores.length === daysBetween(first, last) + 1;
+    if (!complete) continue;
+
+    const mean = scores.reduce((s, v) => s + v, 0) / scores.length;
+    if (mean > min) {
+      return { achievedOn: last, details: { month, averageScore: mean } };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Awards oldest first (ties by ID)
+ */
+function sortAwards(
+  awards: Record<string, AchievementAward>
+): AchievementAward[] {
+  return Object.values(awards).sort(
+    (a, b) =>
+      a.achievedOn.localeCompare(b.achievedOn) ||
+      a.achievementId.localeCompare(b.achievementId)
+  );
+}
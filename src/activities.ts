@@ -0,0 +1,126 @@
+/**
+ * Activity-type helpers: filtering, grouping and the type-mix summary
+ *
+ * Types are matched exactly as stored (no case folding), so the
+ * in-memory filter agrees with the Firestore `in` query.
+ */
+
+import {
+  ActivityTypeScore,
+  ExplanationKey,
+  ExplanationMessage,
+  Session,
+} from './types';
+import { ScoringConfigError } from './errors';
+import { createExplanationRenderer } from './explanations';
+
+/**
+ * Group key for sessions without a type
+ */
+export const UNTYPED_ACTIVITY = 'other';
+
+/**
+ * Most values a Firestore `in` filter accepts
+ */
+export const MAX_ACTIVITY_TYPES = 30;
+
+/**
+ * Sessions whose type is one of `activityTypes` (all sessions if unset)
+ */
+export function filterSessionsByType(
+  sessions: Session[],
+  activityTypes?: string[]
+): Session[] {
+  if (!activityTypes) return sessions;
+
+  const wanted = new Set(activityTypes);
+  return sessions.filter(s => s.type !== undefined && wanted.has(s.type));
+}
+
+/**
+ * Reject type filters the repository query can't run
+ *
+ * @throws ScoringConfigError if activityTypes is empty or too long
+ */
+export function validateActivityTypes(activityTypes?: string[]): void {
+  if (!activityTypes) return;
+
+  if (
+    activityTypes.length === 0 ||
+    activityTypes.length > MAX_ACTIVITY_TYPES
+  ) {
+    throw new ScoringConfigError(
+      `activityTypes must hold 1 to ${MAX_ACTIVITY_TYPES} types (got ${activityTypes.length})`
+    );
+  }
+}
+
+/**
+ * Sessions keyed by type; untyped sessions go under UNTYPED_ACTIVITY
+ */
+export function groupSessionsByType(
+  sessions: Session[]
+): Map<string, Session[]> {
+  const groups = new Map<string, Session[]>();
+
+  for (const session of sessions) {
+    const type = session.type || UNTYPED_ACTIVITY;
+    const group = groups.get(type) ?? [];
+    group.push(session);
+    groups.set(type, group);
+  }
+
+  return groups;
+}
+
+/**
+ * One summary part per active type ("ran 10 days"), or a single
+ * "no activity" message when there is none
+ */
+export function activityTypeMixMessages(
+  types: ActivityTypeScore[]
+): ExplanationMessage[] {
+  const active = types.filter(t => t.activeDays > 0);
+  if (active.length === 0) return [mixMessage('typeMix.none', {})];
+
+  return active.map(t =>
+    t.type === UNTYPED_ACTIVITY
+      ? mixMessage('typeMix.untyped', { days: t.activeDays })
+      : mixMessage('typeMix.type', { type: t.type, days: t.activeDays })
+  );
+}
+
+/**
+ * "You ran 10 days, lifted 6 days and did yoga 1 day"
+ *
+ * @param locale - BCP 47 tag (default: "en")
+ */
+export function describeActivityTypeMix(
+  types: ActivityTypeScore[],
+  locale?: string
+): string {
+  const renderer = createExplanationRenderer(locale);
+  const messages = activityTypeMixMessages(types);
+  if (messages[0].key === 'typeMix.none') return renderer.render(messages[0]);
+
+  const phrases = renderer.renderAll(messages);
+  const last = phrases.pop()!;
+  const activities =
+    phrases.length > 0
+      ? renderer.render(
+          mixMessage('typeMix.list', { rest: phrases.join(', '), last })
+        )
+      : last;
+
+  return renderer.render(mixMessage('typeMix.summary', { activities }));
+}
+
+/**
+ * Neutral type-mix message (not tied to a score component)
+ */
+function mixMessage(
+  key: ExplanationKey,
+  params: Record<string, string | number>
+): ExplanationMessage {
+  return { key, params, tone: 'neutral', component: null };
+}
@@ -0,0 +1,33 @@
+/**
+ * Replay of score traces
+ *
+ * A ScoreTrace (calculateConsistencyScore with `trace: true`) carries the
+ * exact input of the calculation as plain JSON, so it can be attached to a
+ * support ticket and re-run later to reproduce the same score.
+ */
+
+import { ConsistencyScore, ScoreInput, ScoreTrace } from './types';
+import { calculateConsistencyScore } from './scoring';
+
+/**
+ * Scoring input recorded in a trace, with dates restored
+ */
+export function traceToScoreInput(trace: ScoreTrace): ScoreInput {
+  const { sessions, referenceDate, options } = trace.input;
+
+  return {
+    ...options,
+    sessions: sessions.map(s => ({ ...s, timestamp: new Date(s.timestamp) })),
+    referenceDate: new Date(referenceDate),
+  };
+}
+
+/**
+ * Re-run the calculation recorded in a trace (with a fresh trace attached)
+ *
+ * Compare `result.trace` with the original to find the first step that
+ * differs, e.g. after a library upgrade (see `version`).
+ */
+export function replayScoreTrace(trace: ScoreTrace): ConsistencyScore {
+  return calculateConsistencyScore({ ...traceToScoreInput(trace), trace: true });
+}
@@ -0,0 +1,402 @@
+/**
+ * Incremental score cache
+ *
+ * Keeps one aggregate document per user (users/{userId}/consistency/current)
+ * holding the bucketed active days and the last score:
+ * - Session writes/deletes adjust a single day bucket inside a transaction
+ * - Reads return the cached score, re-deriving only when the local
+ *   reference day has rolled over
+ * - A missing document, or one built with another config or options, is
+ *   rebuilt from the session repository when one is given
+ *
+ * Costs one document read per score instead of up to 200 session reads.
+ */
+
+import { Firestore } from 'firebase-admin/firestore';
+import {
+  ActiveDay,
+  CachedSessionEntry,
+  ConsistencyScore,
+  ScoreCacheDocument,
+  ScoreCacheOptions,
+  Session,
+} from './types';
+import { addDays, toLocalDateString } from './dates';
+import { scoreActiveDays, selectWindow } from './scoring';
+import { SessionRepository } from './repository';
+import {
+  UserDocumentStore,
+  createFirestoreUserDocumentStore,
+  createInMemoryUserDocumentStore,
+} from './store';
+import { DEFAULT_SCORING_CONFIG } from './config';
+import { countsAsActivity } from './effort';
+import { acceptSessions } from './validation';
+import { renderExplanations } from './explanations';
+
+/**
+ * Cache options plus the repository a missing or stale document is
+ * rebuilt from
+ */
+export interface ScoreCacheRebuildOptions extends ScoreCacheOptions {
+  repository?: SessionRepository; // Without it a missing document starts empty
+}
+
+/**
+ * Storage for cache documents (users/{userId}/consistency/current)
+ */
+export type ScoreCacheStore = UserDocumentStore<ScoreCacheDocument>;
+
+/**
+ * Firestore-backed store (runs updates in a transaction)
+ */
+export function createFirestoreScoreCacheStore(db: Firestore): ScoreCacheStore {
+  return createFirestoreUserDocumentStore(db, 'current');
+}
+
+/**
+ * In-memory store for tests and local tools
+ */
+export function createInMemoryScoreCacheStore(): ScoreCacheStore {
+  return createInMemoryUserDocumentStore();
+}
+
+/**
+ * Add or replace one session in the cache, then rescore
+ *
+ * Re-applying the same session (e.g. a retried trigger) is a no-op.
+ */
+export async function applySessionWrite(
+  store: ScoreCacheStore,
+  userId: string,
+  session: Session,
+  options: ScoreCacheRebuildOptions = {}
+): Promise<ConsistencyScore> {
+  await ensureDocument(store, userId, options);
+
+  const doc = await store.update(userId, current => {
+    const next = prepareDocument(current, userId, options);
+    removeSession(next, session.id);
+    addSession(next, session, options);
+    return rescore(next, options);
+  });
+
+  return doc.score;
+}
+
+/**
+ * Remove one session from the cache, then rescore
+ *
+ * Deleting an unknown session ID only rescores.
+ */
+export async function applySessionDelete(
+  store: ScoreCacheStore,
+  userId: string,
+  sessionId: string,
+  options: ScoreCacheRebuildOptions = {}
+): Promise<ConsistencyScore> {
+  await ensureDocument(store, userId, options);
+
+  const doc = await store.update(userId, current => {
+    const next = prepareDocument(current, userId, options);
+    removeSession(next, sessionId);
+    return rescore(next, options);
+  });
+
+  return doc.score;
+}
+
+/**
+ * Cached score for a user, or null when nothing has been cached for these
+ * options and there is no repository to rebuild from
+ *
+ * Re-derives (and persists) the score only when the local reference day
+ * or timezone differs from the cached one.
+ */
+export async function getCachedConsistencyScore(
+  store: ScoreCacheStore,
+  userId: string,
+  options: ScoreCacheRebuildOptions = {}
+): Promise<ConsistencyScore | null> {
+  const { referenceDate = new Date(), timezone = 'UTC', repository } = options;
+
+  const cached = await store.read(userId);
+  if (!cached || cached.optionsKey !== cacheKey(options)) {
+    return repository
+      ? rebuildScoreCache(store, repository, userId, options)
+      : null;
+  }
+
+  const referenceDay = toLocalDateString(referenceDate, timezone);
+  if (cached.referenceDay === referenceDay && cached.timezone === timezone) {
+    return scoreFromCacheDocument(cached, options);
+  }
+
+  const doc = await store.update(userId, current =>
+    rescore(prepareDocument(current, userId, options), options)
+  );
+
+  return doc.score;
+}
+
+/**
+ * Score an already read document as of the reference date, without
+ * writing anything back
+ *
+ * Returns null when the document was built with other options.
+ */
+export function scoreFromCacheDocument(
+  doc: ScoreCacheDocument,
+  options: ScoreCacheOptions = {}
+): ConsistencyScore | null {
+  const { referenceDate = new Date(), timezone = 'UTC' } = options;
+  if (doc.optionsKey !== cacheKey(options)) return null;
+
+  const referenceDay = toLocalDateString(referenceDate, timezone);
+  if (doc.referenceDay !== referenceDay || doc.timezone !== timezone) {
+    const copy = structuredClone(doc);
+    return rescore(prepareDocument(copy, doc.userId, options), options).score;
+  }
+
+  return {
+    ...doc.score,
+    explanations: renderExplanations(doc.score.messages, options.locale),
+  };
+}
+
+/**
+ * Replace a user's document with one built from their stored sessions
+ *
+ * Costs one window fetch. Safe to re-run: the result depends only on the
+ * sessions in storage.
+ */
+export async function rebuildScoreCache(
+  store: ScoreCacheStore,
+  repository: SessionRepository,
+  userId: string,
+  options: ScoreCacheOptions = {}
+): Promise<ConsistencyScore> {
+  const {
+    referenceDate = new Date(),
+    timezone = 'UTC',
+    config = DEFAULT_SCORING_CONFIG,
+  } = options;
+
+  const { sessions } = await repository.fetchSessionWindow(userId, {
+    days: config.windowDays,
+    referenceDate,
+    timezone,
+    activityTypes: options.activityTypes,
+    instrumentation: options.instrumentation,
+  });
+
+  const doc = await store.update(userId, () => {
+    const next = prepareDocument(null, userId, options);
+    for (const session of sessions) addSession(next, session, options);
+    return rescore(next, options);
+  });
+
+  return doc.score;
+}
+
+/**
+ * Rebuild the document first if it is missing or was built with other
+ * options (no-op without a repository; costs one extra read with one)
+ */
+async function ensureDocument(
+  store: ScoreCacheStore,
+  userId: string,
+  options: ScoreCacheRebuildOptions
+): Promise<void> {
+  const { repository } = options;
+  if (!repository) return;
+
+  const current = await store.read(userId);
+  if (!current || current.optionsKey !== cacheKey(options)) {
+    await rebuildScoreCache(store, repository, userId, options);
+  }
+}
+
+/**
+ * Everything besides the reference date, timezone and locale that shapes
+ * a cached score; documents built under another key are treated as missing
+ */
+function cacheKey(options: ScoreCacheOptions): string {
+  return JSON.stringify({
+    config: options.config ?? DEFAULT_SCORING_CONFIG,
+    goal: options.goal ?? null,
+    distributionModel: options.distributionModel ?? null,
+    minSessionDurationSec: options.minSessionDurationSec ?? 0,
+    activityTypes: options.activityTypes ?? null,
+    streak: options.streak ?? null,
+    validation: options.validation ?? null,
+  });
+}
+
+/**
+ * Start a document, or rebucket an existing one if the timezone changed
+ * (a document built with other options is started over)
+ */
+function prepareDocument(
+  current: ScoreCacheDocument | null,
+  userId: string,
+  options: ScoreCacheOptions
+): ScoreCacheDocument {
+  const {
+    referenceDate = new Date(),
+    timezone = 'UTC',
+    config = DEFAULT_SCORING_CONFIG,
+  } = options;
+
+  const optionsKey = cacheKey(options);
+  const reusable = current?.optionsKey === optionsKey ? current : null;
+
+  if (reusable && reusable.timezone === timezone) {
+    return reusable;
+  }
+
+  const referenceDay = toLocalDateString(referenceDate, timezone);
+  const doc: ScoreCacheDocument = {
+    userId,
+    timezone,
+    windowDays: config.windowDays,
+    days: {},
+    sessions: {},
+    referenceDay,
+    optionsKey,
+    score: scoreActiveDays([], referenceDay, options),
+  };
+
+  // Timezone changed: rebuild day buckets from the session index
+  for (const [id, entry] of Object.entries(reusable?.sessions ?? {})) {
+    doc.sessions[id] = entry;
+    adjustDay(doc, localDate(entry, timezone), 1, entry.durationSec);
+  }
+
+  return doc;
+}
+
+/**
+ * Index a session and add it to its day bucket
+ * (sessions older than the window, of other activity types or that fail
+ * validation are ignored)
+ *
+ * @throws SessionValidationError in strict mode if the session fails
+ */
+function addSession(
+  doc: ScoreCacheDocument,
+  session: Session,
+  options: ScoreCacheOptions
+): void {
+  const { referenceDate = new Date() } = options;
+  const referenceDay = toLocalDateString(referenceDate, doc.timezone);
+  if (!acceptSessions([session], referenceDay, doc.timezone, options).length) {
+    return;
+  }
+
+  const entry: CachedSessionEntry = {
+    timestamp: session.timestamp.toISOString(),
+    durationSec: Math.max(0, Number(session.durationSec) || 0),
+    ...(session.timezone && { timezone: session.timezone }),
+  };
+
+  const date = localDate(entry, doc.timezone);
+  if (date < windowStart(doc, options)) return;
+  if (!countsAsActivity(session, options.minSessionDurationSec)) return;
+
+  doc.sessions[session.id] = entry;
+  adjustDay(doc, date, 1, entry.durationSec);
+}
+
+/**
+ * Remove a session from the index and its day bucket
+ */
+function removeSession(doc: ScoreCacheDocument, sessionId: string): void {
+  const entry = doc.sessions[sessionId];
+  if (!entry) return;
+
+  delete doc.sessions[sessionId];
+  adjustDay(doc, localDate(entry, doc.timezone), -1, -entry.durationSec);
+}
+
+/**
+ * Apply a delta to one day bucket, dropping it when it empties
+ */
+function adjustDay(
+  doc: ScoreCacheDocument,
+  date: string,
+  sessionDelta: number,
+  durationDelta: number
+): void {
+  const day: ActiveDay = doc.days[date] ?? {
+    date,
+    sessionCount: 0,
+    totalDurationSec: 0,
+  };
+
+  day.sessionCount += sessionDelta;
+  day.totalDurationSec = Math.max(0, day.totalDurationSec + durationDelta);
+
+  if (day.sessionCount > 0) {
+    doc.days[date] = day;
+  } else {
+    delete doc.days[date];
+  }
+}
+
+/**
+ * Prune entries that left the window and recompute the score
+ */
+function rescore(
+  doc: ScoreCacheDocument,
+  options: ScoreCacheOptions
+): ScoreCacheDocument {
+  const { referenceDate = new Date() } = options;
+  const referenceDay = toLocalDateString(referenceDate, doc.timezone);
+  const start = windowStart(doc, options);
+
+  for (const [id, entry] of Object.entries(doc.sessions)) {
+    if (localDate(entry, doc.timezone) < start) {
+      delete doc.sessions[id];
+    }
+  }
+
+  for (const date of Object.keys(doc.days)) {
+    if (date < start) delete doc.days[date];
+  }
+
+  const activeDays = Object.values(doc.days).sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+
+  doc.referenceDay = referenceDay;
+  doc.score = scoreActiveDays(
+    selectWindow(activeDays, referenceDay, doc.windowDays),
+    referenceDay,
+    options
+  );
+
+  return doc;
+}
+
+/**
+ * First local day of the window for the current reference date
+ */
+function windowStart(
+  doc: ScoreCacheDocument,
+  options: ScoreCacheOptions
+): string {
+  const { referenceDate = new Date() } = options;
+  const referenceDay = toLocalDateString(referenceDate, doc.timezone);
+  return addDays(referenceDay, -(doc.windowDays - 1));
+}
+
+/**
+ * Local date of a cached session (its own zone wins over the user's)
+ */
+function localDate(entry: CachedSessionEntry, timezone: string): string {
+  return toLocalDateString(
+    new Date(entry.timestamp),
+    entry.timezone ?? timezone
+  );
+}
@@ -0,0 +1,277 @@
+/**
+ * Calendar chart builders: year heatmap, month grid, weekly rollups
+ *
+ * Sessions are bucketed once in the user's timezone (same rules as
+ * scoring: per-session zones, minimum duration, activity types), then
+ * laid out on calendar weeks starting on `weekStartsOn`. Clients only
+ * draw cells; they never re-derive days, weeks or shades.
+ */
+
+import {
+  ActiveDay,
+  CalendarChartInput,
+  CalendarDay,
+  CalendarWeek,
+  IntensityLevel,
+  IntensityOptions,
+  MonthGrid,
+  WeeklyRollup,
+  YearHeatmap,
+} from './types';
+import { addDays, dayOfWeek, startOfWeek, toLocalDateString } from './dates';
+import { groupSessionsByDay } from './scoring';
+import { acceptSessions } from './validation';
+import { ScoringConfigError } from './errors';
+
+const DEFAULT_WEEK_STARTS_ON = 1; // Monday
+const DEFAULT_HEATMAP_WEEKS = 52;
+const DEFAULT_ROLLUP_WEEKS = 12;
+
+// Values reaching levels 2, 3 and 4
+const DEFAULT_THRESHOLDS: Record<
+  NonNullable<IntensityOptions['metric']>,
+  [number, number, number]
+> = {
+  sessionCount: [2, 3, 4],
+  totalDurationSec: [20 * 60, 45 * 60, 90 * 60],
+};
+
+/**
+ * Bucketed days plus the layout settings every builder needs
+ */
+interface CalendarContext {
+  referenceDay: string;
+  weekStartsOn: number;
+  week(weekStart: string, month?: string): CalendarWeek;
+  totals(from: string, to: string): { activeDays: number; sessions: number };
+}
+
+/**
+ * GitHub-style heatmap of the last `weeks` calendar weeks (the current
+ * week included; its remaining days are flagged isFuture)
+ *
+ * @throws ScoringConfigError if weeks, weekStartsOn or intensity are invalid
+ */
+export function buildYearHeatmap(
+  input: CalendarChartInput,
+  weeks: number = DEFAULT_HEATMAP_WEEKS
+): YearHeatmap {
+  assertWeekCount(weeks);
+  const calendar = createCalendar(input);
+
+  const currentWeek = startOfWeek(calendar.referenceDay, calendar.weekStartsOn);
+  const startDate = addDays(currentWeek, -7 * (weeks - 1));
+  const columns: CalendarWeek[] = [];
+  const monthStarts: YearHeatmap['monthStarts'] = [];
+
+  for (let i = 0; i < weeks; i++) {
+    const week = calendar.week(addDays(startDate, 7 * i));
+    columns.push(week);
+
+    const first = week.days.find(d => d.date.endsWith('-01'));
+    if (first) {
+      monthStarts.push({ month: first.date.slice(0, 7), weekIndex: i });
+    }
+  }
+
+  const { activeDays, sessions } = calendar.totals(
+    startDate,
+    calendar.referenceDay
+  );
+
+  return {
+    startDate,
+    endDate: addDays(currentWeek, 6),
+    weeks: columns,
+    monthStarts,
+    activeDays,
+    totalSessions: sessions,
+  };
+}
+
+/**
+ * One month in full weeks; leading and trailing days of the adjacent
+ * months are included with isPadding set
+ *
+ * @param month - YYYY-MM (default: the reference day's month)
+ * @throws ScoringConfigError if month, weekStartsOn or intensity are invalid
+ */
+export function buildMonthGrid(
+  input: CalendarChartInput,
+  month?: string
+): MonthGrid {
+  const calendar = createCalendar(input);
+  const shown = month ?? calendar.referenceDay.slice(0, 7);
+
+  if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(shown)) {
+    throw new ScoringConfigError(`month must be YYYY-MM (got "${shown}")`);
+  }
+
+  const first = `${shown}-01`;
+  const last = addDays(`${addDays(first, 31).slice(0, 7)}-01`, -1);
+  const weeks: CalendarWeek[] = [];
+
+  for (
+    let weekStart = startOfWeek(first, calendar.weekStartsOn);
+    weekStart <= last;
+    weekStart = addDays(weekStart, 7)
+  ) {
+    weeks.push(calendar.week(weekStart, shown));
+  }
+
+  const to = last < calendar.referenceDay ? last : calendar.referenceDay;
+  const { activeDays, sessions } = calendar.totals(first, to);
+
+  return { month: shown, weeks, activeDays, totalSessions: sessions };
+}
+
+/**
+ * Totals for the last `weeks` calendar weeks, oldest first (the current
+ * week is partial and only counted up to the reference day)
+ *
+ * @throws ScoringConfigError if weeks, weekStartsOn or intensity are invalid
+ */
+export function buildWeeklyRollups(
+  input: CalendarChartInput,
+  weeks: number = DEFAULT_ROLLUP_WEEKS
+): WeeklyRollup[] {
+  assertWeekCount(weeks);
+  const calendar = createCalendar(input);
+
+  const currentWeek = startOfWeek(calendar.referenceDay, calendar.weekStartsOn);
+  const rollups: WeeklyRollup[] = [];
+
+  for (let i = weeks - 1; i >= 0; i--) {
+    const { weekStart, days } = calendar.week(addDays(currentWeek, -7 * i));
+    const counted = days.filter(d => !d.isFuture);
+
+    rollups.push({
+      weekStart,
+      weekEnd: addDays(weekStart, 6),
+      activeDays: counted.filter(d => d.sessionCount > 0).length,
+      sessionCount: counted.reduce((sum, d) => sum + d.sessionCount, 0),
+      totalDurationSec: counted.reduce((sum, d) => sum + d.totalDurationSec, 0),
+      isPartial: i === 0 && days.some(d => d.isFuture),
+    });
+  }
+
+  return rollups;
+}
+
+/**
+ * Shade for one day: 0 without activity, otherwise 1 plus one level per
+ * threshold reached
+ */
+export function intensityLevel(
+  day: Pick<ActiveDay, 'sessionCount' | 'totalDurationSec'>,
+  options: IntensityOptions = {}
+): IntensityLevel {
+  const { metric = 'sessionCount' } = options;
+  const thresholds = options.thresholds ?? DEFAULT_THRESHOLDS[metric];
+
+  if (day.sessionCount === 0) return 0;
+
+  const value = day[metric];
+  return (1 + thresholds.filter(t => value >= t).length) as IntensityLevel;
+}
+
+/**
+ * Validate the input, bucket its sessions and return the layout helpers
+ */
+function createCalendar(input: CalendarChartInput): CalendarContext {
+  const {
+    referenceDate = new Date(),
+    timezone = 'UTC',
+    weekStartsOn = DEFAULT_WEEK_STARTS_ON,
+    intensity = {},
+  } = input;
+
+  validateCalendarOptions(weekStartsOn, intensity);
+
+  const referenceDay = toLocalDateString(referenceDate, timezone);
+  const byDate = new Map(
+    groupSessionsByDay(
+      acceptSessions(input.sessions, referenceDay, timezone, input),
+      timezone,
+      input.minSessionDurationSec
+    ).map(d => [d.date, d])
+  );
+
+  const cell = (date: string, month?: string): CalendarDay => {
+    const sessionCount = byDate.get(date)?.sessionCount ?? 0;
+    const totalDurationSec = byDate.get(date)?.totalDurationSec ?? 0;
+
+    return {
+      date,
+      weekday: dayOfWeek(date),
+      sessionCount,
+      totalDurationSec,
+      level: intensityLevel({ sessionCount, totalDurationSec }, intensity),
+      isPadding: month !== undefined && !date.startsWith(month),
+      isFuture: date > referenceDay,
+    };
+  };
+
+  return {
+    referenceDay,
+    weekStartsOn,
+
+    week: (weekStart, month) => ({
+      weekStart,
+      days: Array.from({ length: 7 }, (_, i) =>
+        cell(addDays(weekStart, i), month)
+      ),
+    }),
+
+    totals: (from, to) => {
+      let activeDays = 0;
+      let sessions = 0;
+      for (const [date, day] of byDate) {
+        if (date < from || date > to) continue;
+        activeDays++;
+        sessions += day.sessionCount;
+      }
+      return { activeDays, sessions };
+    },
+  };
+}
+
+function assertWeekCount(weeks: number): void {
+  if (!Number.isInteger(weeks) || weeks < 1) {
+    throw new ScoringConfigError(
+      `weeks must be a positive integer (got ${weeks})`
+    );
+  }
+}
+
+/**
+ * Reject week starts and intensity thresholds that can't be laid out
+ */
+function validateCalendarOptions(
+  weekStartsOn: number,
+  intensity: IntensityOptions
+): void {
+  if (!Number.isInteger(weekStartsOn) || weekStartsOn < 0 || weekStartsOn > 6) {
+    throw new ScoringConfigError(
+      `weekStartsOn must be an integer from 0 to 6 (got ${weekStartsOn})`
+    );
+  }
+
+  const { metric = 'sessionCount', thresholds } = intensity;
+
+  if (!(metric in DEFAULT_THRESHOLDS)) {
+    throw new ScoringConfigError(`Unknown intensity metric "${metric}"`);
+  }
+
+  if (
+    thresholds &&
+    (thresholds.length !== 3 ||
+      thresholds.some(t => !Number.isFinite(t) || t <= 0) ||
+      thresholds[0] >= thresholds[1] ||
+      thresholds[1] >= thresholds[2])
+  ) {
+    throw new ScoringConfigError(
+      `intensity.thresholds must be 3 ascending positive numbers (got ${thresholds.join(', ')})`
+    );
+  }
+}
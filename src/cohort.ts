@@ -0,0 +1,272 @@
+/**
+ * Cohort analytics: score statistics across many users
+ *
+ * Pure and storage-agnostic: feed it sessions (e.g. from
+ * batchFetchUserSessions via cohortMembersFromBatch) or cached scores,
+ * from a batch job or a test. Users without data are reported as
+ * skipped, never counted as a score of 0.
+ */
+
+import {
+  BandShare,
+  BatchFetchResult,
+  CohortMember,
+  CohortOptions,
+  CohortReport,
+  ConsistencyScore,
+  HistogramBucket,
+  ScoreBand,
+  ScoreBreakdown,
+  ScoreDistribution,
+  SegmentComparison,
+} from './types';
+import { calculateConsistencyScore } from './scoring';
+import { ScoringConfigError } from './errors';
+
+/**
+ * Segment value for members without the attribute
+ */
+export const UNKNOWN_SEGMENT = 'unknown';
+
+export const DEFAULT_SCORE_BANDS: ScoreBand[] = [
+  { label: 'low', min: 0 },
+  { label: 'building', min: 40 },
+  { label: 'consistent', min: 70 },
+];
+
+export const DEFAULT_PERCENTILES = [10, 25, 50, 75, 90];
+
+const DEFAULT_HISTOGRAM_BUCKET_SIZE = 10;
+
+/**
+ * Score every member and summarize the cohort and its segments
+ *
+ * @throws ScoringConfigError if histogram, percentile or band options are invalid
+ */
+export function analyzeCohort(
+  members: CohortMember[],
+  options: CohortOptions = {}
+): CohortReport {
+  const { segmentBy = [] } = options;
+  validateCohortOptions(options);
+
+  const referenceDate = options.referenceDate ?? new Date();
+  const scored: { member: CohortMember; score: ConsistencyScore }[] = [];
+  const skippedUserIds: string[] = [];
+
+  for (const member of members) {
+    const score = scoreMember(member, options, referenceDate);
+    if (score) {
+      scored.push({ member, score });
+    } else {
+      skippedUserIds.push(member.userId);
+    }
+  }
+
+  const cohort = summarizeScores(
+    scored.map(s => s.score),
+    options
+  );
+
+  const segments: Record<string, SegmentComparison[]> = {};
+
+  for (const attribute of segmentBy) {
+    const groups = new Map<string, ConsistencyScore[]>();
+
+    for (const { member, score } of scored) {
+      const value = member.attributes?.[attribute] ?? UNKNOWN_SEGMENT;
+      groups.set(value, [...(groups.get(value) ?? []), score]);
+    }
+
+    segments[attribute] = [...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([value, scores]) => {
+        const distribution = summarizeScores(scores, options);
+        return {
+          value,
+          ...distribution,
+          meanDelta:
+            distribution.mean !== null && cohort.mean !== null
+              ? distribution.mean - cohort.mean
+              : null,
+        };
+      });
+  }
+
+  return { ...cohort, skippedUserIds, segments };
+}
+
+/**
+ * Cohort members from a batch fetch
+ *
+ * Failed users get no sessions, so analyzeCohort reports them as skipped
+ * instead of scoring an empty window.
+ *
+ * @param attributes - Segment attributes by user ID
+ */
+export function cohortMembersFromBatch(
+  batch: BatchFetchResult,
+  attributes: Record<string, Record<string, string>> = {}
+): CohortMember[] {
+  return [...batch.users].map(([userId, result]) => ({
+    userId,
+    ...(result.status !== 'failed' && { sessions: result.sessions }),
+    ...(attributes[userId] && { attributes: attributes[userId] }),
+  }));
+}
+
+/**
+ * Distribution, percentiles, component means and band shares of scores
+ */
+export function summarizeScores(
+  scores: ConsistencyScore[],
+  options: CohortOptions = {}
+): ScoreDistribution {
+  const {
+    histogramBucketSize = DEFAULT_HISTOGRAM_BUCKET_SIZE,
+    percentiles = DEFAULT_PERCENTILES,
+    bands = DEFAULT_SCORE_BANDS,
+  } = options;
+
+  const values = scores.map(s => s.score).sort((a, b) => a - b);
+  const count = values.length;
+
+  return {
+    count,
+    mean: count ? sum(values) / count : null,
+    percentiles: Object.fromEntries(
+      percentiles.map(p => [`p${p}`, percentile(values, p)])
+    ),
+    histogram: buildHistogram(values, histogramBucketSize),
+    components: count ? averageBreakdown(scores) : null,
+    bands: shareByBand(values, bands),
+  };
+}
+
+/**
+ * Member's own score, or its sessions scored now (undefined if neither)
+ */
+function scoreMember(
+  member: CohortMember,
+  options: CohortOptions,
+  referenceDate: Date
+): ConsistencyScore | undefined {
+  if (member.score) return member.score;
+  if (!member.sessions) return undefined;
+
+  return calculateConsistencyScore({
+    ...options,
+    sessions: member.sessions,
+    referenceDate,
+    timezone: member.timezone ?? options.timezone,
+  });
+}
+
+/**
+ * Linearly interpolated percentile of sorted values (null if empty)
+ */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Fixed-width buckets over 0–100; the last one includes 100
+ */
+function buildHistogram(values: number[], size: number): HistogramBucket[] {
+  const buckets: HistogramBucket[] = [];
+
+  for (let min = 0; min < 100; min += size) {
+    buckets.push({ min, max: Math.min(min + size, 100), count: 0 });
+  }
+
+  for (const value of values) {
+    const index = Math.min(Math.floor(value / size), buckets.length - 1);
+    buckets[index].count++;
+  }
+
+  return buckets;
+}
+
+/**
+ * Count and share of values per band
+ */
+function shareByBand(values: number[], bands: ScoreBand[]): BandShare[] {
+  return bands.map((band, i) => {
+    const max = bands[i + 1]?.min ?? 100;
+    const isTop = i === bands.length - 1;
+    const count = values.filter(
+      v => v >= band.min && (v < max || (isTop && v <= max))
+    ).length;
+
+    return {
+      label: band.label,
+      min: band.min,
+      max,
+      count,
+      share: values.length ? count / values.length : 0,
+    };
+  });
+}
+
+/**
+ * Mean of each breakdown component
+ */
+function averageBreakdown(scores: ConsistencyScore[]): ScoreBreakdown {
+  const mean = (pick: (b: ScoreBreakdown) => number) =>
+    sum(scores.map(s => pick(s.breakdown))) / scores.length;
+
+  return {
+    baseScore: mean(b => b.baseScore),
+    distributionBonus: mean(b => b.distributionBonus),
+    streakBonus: mean(b => b.streakBonus),
+    recencyBonus: mean(b => b.recencyBonus),
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((s, v) => s + v, 0);
+}
+
+/**
+ * Reject histogram, percentile and band options that can't be summarized
+ */
+function validateCohortOptions(options: CohortOptions): void {
+  const {
+    histogramBucketSize = DEFAULT_HISTOGRAM_BUCKET_SIZE,
+    percentiles = DEFAULT_PERCENTILES,
+    bands = DEFAULT_SCORE_BANDS,
+  } = options;
+
+  if (
+    !Number.isInteger(histogramBucketSize) ||
+    histogramBucketSize < 1 ||
+    histogramBucketSize > 100
+  ) {
+    throw new ScoringConfigError(
+      `histogramBucketSize must be an integer from 1 to 100 (got ${histogramBucketSize})`
+    );
+  }
+
+  if (percentiles.some(p => !Number.isFinite(p) || p < 0 || p > 100)) {
+    throw new ScoringConfigError(
+      `percentiles must be between 0 and 100 (got ${percentiles.join(', ')})`
+    );
+  }
+
+  if (
+    bands.length === 0 ||
+    bands[0].min !== 0 ||
+    bands.some((b, i) => i > 0 && b.min <= bands[i - 1].min) ||
+    bands.some(b => b.min > 100)
+  ) {
+    throw new ScoringConfigError(
+      'bands must start at 0 and have ascending mins up to 100'
+    );
+  }
+}
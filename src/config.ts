@@ -0,0 +1,102 @@
+/**
+ * Scoring configuration: defaults, presets and validation
+ *
+ * The default reproduces the original 28-day, 60/25/10/5 score exactly.
+ */
+
+import { ScoringConfig } from './types';
+import { ScoringConfigError } from './errors';
+
+/**
+ * Scoring library version recorded in score traces
+ * (keep in sync with package.json)
+ */
+export const SCORING_VERSION = '1.0.0';
+
+/**
+ * 28-day window, 60/25/10/5 weights, +2 points per streak day
+ */
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  windowDays: 28,
+  weights: {
+    base: 60,
+    distribution: 25,
+    streak: 10,
+    recency: 5,
+  },
+  recencyBuckets: [
+    { maxDaysAgo: 1, points: 5 },
+    { maxDaysAgo: 3, points: 3 },
+    { maxDaysAgo: 7, points: 1 },
+  ],
+  streakPointsPerDay: 2,
+};
+
+/**
+ * 7-day "weekly" score
+ */
+export const WEEKLY_SCORING_CONFIG: ScoringConfig = {
+  ...DEFAULT_SCORING_CONFIG,
+  windowDays: 7,
+};
+
+/**
+ * 90-day "quarterly" score
+ */
+export const QUARTERLY_SCORING_CONFIG: ScoringConfig = {
+  ...DEFAULT_SCORING_CONFIG,
+  windowDays: 90,
+};
+
+/**
+ * Reject configs that would produce scores outside 0–100
+ * or bonuses that can never be earned
+ */
+export function validateScoringConfig(config: ScoringConfig): void {
+  const { windowDays, weights, recencyBuckets, streakPointsPerDay } = config;
+
+  if (!Number.isInteger(windowDays) || windowDays < 1) {
+    throw new ScoringConfigError(
+      `windowDays must be a positive integer (got ${windowDays})`
+    );
+  }
+
+  const weightValues = [
+    weights.base,
+    weights.distribution,
+    weights.streak,
+    weights.recency,
+  ];
+
+  if (weightValues.some(w => !Number.isFinite(w) || w < 0)) {
+    throw new ScoringConfigError('weights must be non-negative numbers');
+  }
+
+  const total = weightValues.reduce((sum, w) => sum + w, 0);
+  if (Math.abs(total - 100) > 1e-9) {
+    throw new ScoringConfigError(`weights must sum to 100 (got ${total})`);
+  }
+
+  if (!Number.isFinite(streakPointsPerDay) || streakPointsPerDay <= 0) {
+    throw new ScoringConfigError(
+      `streakPointsPerDay must be positive (got ${streakPointsPerDay})`
+    );
+  }
+
+  let previousMaxDaysAgo = -1;
+  for (const bucket of recencyBuckets) {
+    if (bucket.maxDaysAgo <= previousMaxDaysAgo) {
+      throw new ScoringConfigError(
+        'recencyBuckets must be sorted by ascending maxDaysAgo'
+      );
+    }
+
+    if (bucket.points < 0 || bucket.points > weights.recency) {
+      throw new ScoringConfigError(
+        `recency bucket points must be between 0 and ${weights.recency} (got ${bucket.points})`
+      );
+    }
+
+    previousMaxDaysAgo = bucket.maxDaysAgo;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Calendar-day helpers
+ *
+ * All arithmetic works on YYYY-MM-DD strings interpreted as UTC midnight,
+ * so results never depend on the timezone of the machine running the code.
+ */
+
+import { InvalidTimezoneError } from './errors';
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+const MS_PER_DAY = MS_PER_HOUR * 24;
+
+// Intl.DateTimeFormat construction dominates bucketing cost; reuse per zone
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+const clockFormatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Throw InvalidTimezoneError unless `timezone` is a known IANA zone
+ */
+export function assertValidTimezone(timezone: string): void {
+  dateFormatter(timezone);
+}
+
+/**
+ * Convert Date to YYYY-MM-DD in user's timezone
+ */
+export function toLocalDateString(date: Date, timezone: string): string {
+  return dateFormatter(timezone).format(date);
+}
+
+/**
+ * The instant local midnight starts `dateStr` in `timezone`
+ *
+ * Where a DST switch skips midnight, returns the first instant of the day.
+ */
+export function startOfLocalDay(dateStr: string, timezone: string): Date {
+  return atLocalHour(dateStr, 0, timezone);
+}
+
+/**
+ * The instant the wall clock in `timezone` reads `hour`:00 on `dateStr`
+ *
+ * `hour` may be 24 (next midnight). Where a DST switch skips that hour,
+ * returns the instant just after the gap.
+ */
+export function atLocalHour(
+  dateStr: string,
+  hour: number,
+  timezone: string
+): Date {
+  const wallClock = Date.parse(`${dateStr}T00:00:00Z`) + hour * MS_PER_HOUR;
+
+  // The offset can differ on either side of a DST switch; two passes settle it
+  let instant = wallClock;
+  for (let pass = 0; pass < 2; pass++) {
+    instant = wallClock - utcOffsetMs(new Date(instant), timezone);
+  }
+
+  // Inside a skipped hour the passes can settle before the gap; the offset
+  // there (the one before the switch) places the hour where the gap ends
+  const offset = utcOffsetMs(new Date(instant), timezone);
+  if (instant + offset !== wallClock) {
+    instant = Math.max(instant, wallClock - offset);
+  }
+
+  return new Date(instant);
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export function addDays(dateStr: string, days: number): string {
+  const d = new Date(`${dateStr}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days from `from` to `to` (positive when `to` is later)
+ */
+export function daysBetween(from: string, to: string): number {
+  const a = Date.parse(`${from}T00:00:00Z`);
+  const b = Date.parse(`${to}T00:00:00Z`);
+  return Math.round((b - a) / MS_PER_DAY);
+}
+
+/**
+ * Day of week for a YYYY-MM-DD date (0 = Sunday … 6 = Saturday)
+ */
+export function dayOfWeek(dateStr: string): number {
+  return new Date(`${dateStr}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * First day of the week containing `dateStr`
+ */
+export function startOfWeek(dateStr: string, weekStartsOn: number): string {
+  const offset = (dayOfWeek(dateStr) - weekStartsOn + 7) % 7;
+  return addDays(dateStr, -offset);
+}
+
+/**
+ * Cached YYYY-MM-DD formatter, translating Intl's RangeError
+ */
+function dateFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+
+  if (!formatter) {
+    formatter = createFormatter(timezone, {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Offset of `timezone` from UTC at `date`, in milliseconds
+ */
+function utcOffsetMs(date: Date, timezone: string): number {
+  let formatter = clockFormatterCache.get(timezone);
+
+  if (!formatter) {
+    formatter = createFormatter(timezone, {
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+    });
+    clockFormatterCache.set(timezone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatter.formatToParts(date)) {
+    parts[type] = Number(value);
+  }
+
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+
+  return wallClock - (date.getTime() - date.getMilliseconds());
+}
+
+function createFormatter(
+  timezone: string,
+  options: Intl.DateTimeFormatOptions
+): Intl.DateTimeFormat {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { ...options, timeZone: timezone });
+  } catch (error) {
+    if (error instanceof RangeError) throw new InvalidTimezoneError(timezone);
+    throw error;
+  }
+}
@@ -0,0 +1,262 @@
+/**
+ * Effort score: how much training, not how regularly
+ *
+ * Kept apart from the consistency score so low-intensity exercise is
+ * never penalized there; it only blends in when `blendWeight` is set.
+ * - Volume (0–70): active minutes vs. a weekly minutes target
+ * - Intensity (0–30): average perceived exertion of rated sessions
+ * Without any rated sessions, volume alone scales to 0–100.
+ */
+
+import {
+  EffortMetadata,
+  ExplanationMessage,
+  EffortOptions,
+  EffortScore,
+  ScoringOptions,
+  Session,
+} from './types';
+import { addDays, toLocalDateString } from './dates';
+import { DEFAULT_SCORING_CONFIG } from './config';
+import { ScoringConfigError } from './errors';
+import { renderExplanations } from './explanations';
+
+export const EFFORT_VOLUME_POINTS = 70;
+export const EFFORT_INTENSITY_POINTS = 30;
+
+export const DEFAULT_EFFORT_OPTIONS: Required<EffortOptions> = {
+  targetMinutesPerWeek: 150,
+  blendWeight: 0,
+};
+
+const MIN_INTENSITY = 1;
+const MAX_INTENSITY = 10;
+
+/**
+ * Whether a session is long enough to count as activity
+ *
+ * Sessions with a missing or invalid duration always count: we can't
+ * tell them apart from real ones.
+ */
+export function countsAsActivity(
+  session: Session,
+  minSessionDurationSec: number = 0
+): boolean {
+  const duration = Number(session.durationSec);
+
+  if (session.durationSec === undefined || !Number.isFinite(duration)) {
+    return true;
+  }
+
+  return duration >= minSessionDurationSec;
+}
+
+/**
+ * Validate the activity threshold and effort options
+ *
+ * @throws ScoringConfigError if any value is out of range
+ */
+export function validateEffortOptions(options: ScoringOptions): void {
+  const { minSessionDurationSec = 0, effort } = options;
+
+  if (!Number.isFinite(minSessionDurationSec) || minSessionDurationSec < 0) {
+    throw new ScoringConfigError(
+      `minSessionDurationSec must be a non-negative number (got ${minSessionDurationSec})`
+    );
+  }
+
+  if (!effort) return;
+
+  const { targetMinutesPerWeek, blendWeight } = {
+    ...DEFAULT_EFFORT_OPTIONS,
+    ...effort,
+  };
+
+  if (!Number.isFinite(targetMinutesPerWeek) || targetMinutesPerWeek <= 0) {
+    throw new ScoringConfigError(
+      `targetMinutesPerWeek must be positive (got ${targetMinutesPerWeek})`
+    );
+  }
+
+  if (!(blendWeight >= 0 && blendWeight <= 1)) {
+    throw new ScoringConfigError(
+      `blendWeight must be between 0 and 1 (got ${blendWeight})`
+    );
+  }
+}
+
+/**
+ * Effort score for the window ending on referenceDay (inclusive)
+ *
+ * Sessions are placed by local day like the consistency score; those
+ * below minSessionDurationSec are ignored and reported.
+ */
+export function calculateEffortScore(
+  sessions: Session[],
+  referenceDay: string,
+  options: ScoringOptions = {}
+): EffortScore {
+  const {
+    timezone = 'UTC',
+    config = DEFAULT_SCORING_CONFIG,
+    minSessionDurationSec = 0,
+  } = options;
+  const { targetMinutesPerWeek, blendWeight } = {
+    ...DEFAULT_EFFORT_OPTIONS,
+    ...options.effort,
+  };
+
+  validateEffortOptions(options);
+
+  const windowStart = addDays(referenceDay, -(config.windowDays - 1));
+  const inWindow = sessions.filter(session => {
+    const date = toLocalDateString(
+      session.timestamp,
+      session.timezone ?? timezone
+    );
+    return date >= windowStart && date <= referenceDay;
+  });
+
+  const counted = inWindow.filter(s =>
+    countsAsActivity(s, minSessionDurationSec)
+  );
+
+  const totalMinutes =
+    counted.reduce(
+      (sum, s) => sum + Math.max(0, Number(s.durationSec) || 0),
+      0
+    ) / 60;
+  const targetMinutes = (targetMinutesPerWeek * config.windowDays) / 7;
+  const volumeRatio = Math.min(totalMinutes / targetMinutes, 1);
+
+  const intensities = counted
+    .map(s => Number(s.intensity))
+    .filter(Number.isFinite)
+    .map(i => Math.min(MAX_INTENSITY, Math.max(MIN_INTENSITY, i)));
+
+  const averageIntensity =
+    intensities.length > 0
+      ? intensities.reduce((sum, i) => sum + i, 0) / intensities.length
+      : null;
+
+  // Unrated users aren't penalized: volume takes the whole range
+  const breakdown =
+    averageIntensity === null
+      ? { volumePoints: volumeRatio * 100, intensityPoints: 0 }
+      : {
+          volumePoints: volumeRatio * EFFORT_VOLUME_POINTS,
+          intensityPoints:
+            ((averageIntensity - MIN_INTENSITY) /
+              (MAX_INTENSITY - MIN_INTENSITY)) *
+            EFFORT_INTENSITY_POINTS,
+        };
+
+  const score = Math.max(
+    0,
+    Math.min(
+      100,
+      Math.round(breakdown.volumePoints + breakdown.intensityPoints)
+    )
+  );
+
+  const metadata: EffortMetadata = {
+    countedSessions: counted.length,
+    ignoredShortSessions: inWindow.length - counted.length,
+    totalMinutes,
+    targetMinutes,
+    ratedSessions: intensities.length,
+    averageIntensity,
+  };
+
+  const messages = generateEffortExplanations(
+    metadata,
+    minSessionDurationSec,
+    blendWeight
+  );
+
+  return {
+    score,
+    explanations: renderExplanations(messages, options.locale),
+    messages,
+    breakdown,
+    metadata,
+    blendWeight,
+  };
+}
+
+/**
+ * Weighted average of the consistency and effort scores
+ */
+export function blendScores(
+  consistencyScore: number,
+  effort: EffortScore
+): number {
+  const { blendWeight } = effort;
+  return Math.round(
+    (1 - blendWeight) * consistencyScore + blendWeight * effort.score
+  );
+}
+
+/**
+ * Generate effort messages (volume, intensity, ignored sessions, blend)
+ */
+function generateEffortExplanations(
+  metadata: EffortMetadata,
+  minSessionDurationSec: number,
+  blendWeight: number
+): ExplanationMessage[] {
+  const { totalMinutes, targetMinutes, averageIntensity } = metadata;
+  const pct = Math.round((totalMinutes / targetMinutes) * 100);
+
+  const bullets: ExplanationMessage[] = [
+    {
+      key: 'effort.volume',
+      params: {
+        minutes: Math.round(totalMinutes),
+        target: Math.round(targetMinutes),
+        pct,
+      },
+      tone: pct >= 100 ? 'positive' : 'neutral',
+      component: 'volumePoints',
+    },
+    averageIntensity === null
+      ? {
+          key: 'effort.unrated',
+          params: {},
+          tone: 'neutral',
+          component: 'intensityPoints',
+        }
+      : {
+          key: 'effort.intensity',
+          params: {
+            average: Math.round(averageIntensity * 10) / 10,
+            rated: metadata.ratedSessions,
+          },
+          tone: 'neutral',
+          component: 'intensityPoints',
+        },
+  ];
+
+  if (metadata.ignoredShortSessions > 0) {
+    bullets.push({
+      key: 'effort.ignoredShort',
+      params: {
+        count: metadata.ignoredShortSessions,
+        seconds: minSessionDurationSec,
+      },
+      tone: 'warning',
+      component: null,
+    });
+  }
+
+  if (blendWeight > 0) {
+    bullets.push({
+      key: 'effort.blend',
+      params: { pct: Math.round(blendWeight * 100) },
+      tone: 'neutral',
+      component: null,
+    });
+  }
+
+  return bullets;
+}
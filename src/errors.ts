@@ -0,0 +1,66 @@
+/**
+ * Typed errors for the Consistency Score system
+ *
+ * Callers can branch on `instanceof` instead of parsing messages.
+ */
+
+import { DataQualityReport } from './types';
+
+/**
+ * Thrown when scoring options (goal, config) are out of range
+ */
+export class ScoringConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScoringConfigError';
+  }
+}
+
+/**
+ * Thrown when a timezone is not a valid IANA zone (e.g. "Mars/Olympus")
+ */
+export class InvalidTimezoneError extends Error {
+  constructor(readonly timezone: string) {
+    super(`Invalid IANA timezone: "${timezone}"`);
+    this.name = 'InvalidTimezoneError';
+  }
+}
+
+/**
+ * Thrown in strict validation mode when any session fails validation
+ */
+export class SessionValidationError extends Error {
+  constructor(readonly report: DataQualityReport) {
+    super(
+      `${report.quarantined} of ${report.received} sessions failed validation: ` +
+        Object.entries(report.issues)
+          .filter(([, summary]) => summary.count > 0)
+          .map(([issue, summary]) => `${issue} (${summary.count})`)
+          .join(', ')
+    );
+    this.name = 'SessionValidationError';
+  }
+}
+
+/**
+ * Thrown (or reported per user) when a fetch would exceed its read budget
+ */
+export class ReadBudgetExceededError extends Error {
+  constructor(readonly maxReads: number) {
+    super(`Read budget of ${maxReads} exhausted`);
+    this.name = 'ReadBudgetExceededError';
+  }
+}
+
+/**
+ * Thrown when an export can't be read back (wrong schema or malformed line)
+ */
+export class ExportFormatError extends Error {
+  constructor(
+    message: string,
+    readonly line: number // 1-based line in the export
+  ) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'ExportFormatError';
+  }
+}
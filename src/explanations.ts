@@ -0,0 +1,343 @@
+/**
+ * Localized rendering of explanation messages
+ *
+ * Scoring emits structured ExplanationMessages (key, params, tone,
+ * component); this module turns them into text for a locale. Templates
+ * use a small ICU MessageFormat subset:
+ * - `{name}` — a parameter (numbers are locale-formatted)
+ * - `{n, plural, =0 {…} one {# day} other {# days}}` — `#` is the number
+ * - `{v, select, a {…} other {…}}`
+ * - `{days, weekdays}` — comma-separated weekday indexes (0 = Sunday)
+ *   rendered as localized weekday names
+ */
+
+import { ExplanationMessage, MessageBundle } from './types';
+
+export const DEFAULT_LOCALE = 'en';
+
+// Shared fragment: a detected rhythm ("every Mon/Wed/Fri")
+const EN_RHYTHM =
+  '{rhythm, select, daily {every day} weekends {every weekend} weekdays {every weekday} other {every {days, weekdays}}}';
+const ES_RHYTHM =
+  '{rhythm, select, daily {todos los días} weekends {los fines de semana} weekdays {entre semana} other {cada {days, weekdays}}}';
+
+// Shared fragment: the window a trend compares against ("last week")
+const EN_PERIOD =
+  '{windowDays, select, 7 {last week} 28 {last month} other {the previous {windowDays} days}}';
+const ES_PERIOD =
+  '{windowDays, select, 7 {la semana pasada} 28 {el mes pasado} other {los {windowDays} días anteriores}}';
+
+export const EN_MESSAGES: MessageBundle = {
+  frequency:
+    'You trained {activeDays} out of {windowDays, plural, one {# day} other {# days}} ({pct}%)',
+  'goal.weeksMet':
+    'You met your {target}-day weekly goal in {met} of {evaluated, plural, one {# week} other {# weeks}}',
+  'goal.thisWeek':
+    'This week: {activeDays} of {target, plural, one {# day} other {# days}} so far',
+  'distribution.even': 'Your sessions are evenly distributed',
+  'distribution.fair': 'Your sessions are fairly well spaced',
+  'distribution.gaps': 'Long gaps reduce your consistency score',
+  'rhythm.clockwork': `You train ${EN_RHYTHM} like clockwork`,
+  'rhythm.usual': `You usually train ${EN_RHYTHM}`,
+  'streak.longest': 'Longest streak: {days, plural, one {# day} other {# days}}',
+  'streak.freeze':
+    '{count, plural, one {A streak freeze} other {# streak freezes}} kept your streak going',
+  'recency.today': 'You exercised today—great momentum!',
+  'recency.daysAgo':
+    'Last session was {days, plural, one {# day} other {# days}} ago',
+  'gap.longest': 'Longest gap: {days, plural, one {# day} other {# days}}',
+  'data.partial':
+    'Some older sessions could not be loaded, so this score may be too low',
+  'effort.volume': '{minutes} of {target} target minutes ({pct}%)',
+  'effort.unrated':
+    'No intensity ratings yet, so effort is based on duration only',
+  'effort.intensity':
+    'Average intensity: {average}/10 across {rated, plural, one {# rated session} other {# rated sessions}}',
+  'effort.ignoredShort':
+    '{count, plural, one {# session} other {# sessions}} under {seconds} seconds not counted',
+  'effort.blend': 'Effort makes up {pct}% of your overall score',
+  'suggestion.today':
+    'Training today would raise your score to {score} (+{delta})',
+  'suggestion.tomorrow':
+    'Training tomorrow would raise your score to {score} (+{delta})',
+  'suggestion.nextWeek':
+    'Training next week on {days, weekdays} would raise your score to {score} (+{delta})',
+  'group.percentile':
+    "You're more consistent than {pct}% of your group",
+  'nudge.usualDay': 'You usually train on {day, weekdays}s — still time today',
+  'nudge.sinceLast':
+    "It's been {days, plural, one {# day} other {# days}} since your last session — still time today",
+  'trend.steady': `About the same as ${EN_PERIOD}`,
+  'trend.up': `Up {points, plural, one {# point} other {# points}} from ${EN_PERIOD}, mostly from {driver, select, baseScore {more active days} distributionBonus {fewer long gaps} streakBonus {a longer current streak} other {more recent sessions}}`,
+  'trend.down': `Down {points, plural, one {# point} other {# points}} from ${EN_PERIOD}, mostly from {driver, select, baseScore {fewer active days} distributionBonus {longer gaps between sessions} streakBonus {a shorter current streak} other {less recent activity}}`,
+  'typeMix.type':
+    '{type, select, run {ran} walk {walked} cycle {cycled} ride {cycled} swim {swam} strength {lifted} lift {lifted} hike {hiked} row {rowed} other {did {type}}} {days, plural, one {# day} other {# days}}',
+  'typeMix.untyped':
+    'trained {days, plural, one {# day} other {# days}} on other activities',
+  'typeMix.none': 'No activity in this window yet',
+  'typeMix.list': '{rest} and {last}',
+  'typeMix.summary': 'You {activities}',
+};
+
+export const ES_MESSAGES: MessageBundle = {
+  frequency:
+    'Entrenaste {activeDays} de {windowDays, plural, one {# día} other {# días}} ({pct} %)',
+  'goal.weeksMet':
+    'Cumpliste tu objetivo de {target, plural, one {# día} other {# días}} por semana en {met} de {evaluated, plural, one {# semana} other {# semanas}}',
+  'goal.thisWeek':
+    'Esta semana: {activeDays} de {target, plural, one {# día} other {# días}} por ahora',
+  'distribution.even': 'Tus sesiones están bien repartidas',
+  'distribution.fair': 'Tus sesiones están razonablemente espaciadas',
+  'distribution.gaps': 'Las pausas largas reducen tu puntuación de constancia',
+  'rhythm.clockwork': `Entrenas ${ES_RHYTHM} como un reloj`,
+  'rhythm.usual': `Sueles entrenar ${ES_RHYTHM}`,
+  'streak.longest':
+    'Racha más larga: {days, plural, one {# día} other {# días}}',
+  'streak.freeze':
+    '{count, plural, one {Un comodín mantuvo} other {# comodines mantuvieron}} tu racha',
+  'recency.today': 'Hoy has entrenado: ¡buen ritmo!',
+  'recency.daysAgo':
+    'Tu última sesión fue hace {days, plural, one {# día} other {# días}}',
+  'gap.longest': 'Pausa más larga: {days, plural, one {# día} other {# días}}',
+  'data.partial':
+    'No se pudieron cargar algunas sesiones antiguas, así que esta puntuación puede ser demasiado baja',
+  'effort.volume': '{minutes} de {target} minutos objetivo ({pct} %)',
+  'effort.unrated':
+    'Aún no hay valoraciones de intensidad, así que el esfuerzo se basa solo en la duración',
+  'effort.intensity':
+    'Intensidad media: {average}/10 en {rated, plural, one {# sesión valorada} other {# sesiones valoradas}}',
+  'effort.ignoredShort':
+    '{count, plural, one {# sesión de menos de {seconds} segundos no cuenta} other {# sesiones de menos de {seconds} segundos no cuentan}}',
+  'effort.blend': 'El esfuerzo supone el {pct} % de tu puntuación total',
+  'suggestion.today':
+    'Si entrenas hoy, tu puntuación subiría a {score} (+{delta})',
+  'suggestion.tomorrow':
+    'Si entrenas mañana, tu puntuación subiría a {score} (+{delta})',
+  'suggestion.nextWeek':
+    'Si entrenas la próxima semana ({days, weekdays}), tu puntuación subiría a {score} (+{delta})',
+  'group.percentile': 'Eres más constante que el {pct} % de tu grupo',
+  'nudge.usualDay':
+    'Hoy es {day, weekdays}, uno de tus días habituales: todavía estás a tiempo',
+  'nudge.sinceLast':
+    'Han pasado {days, plural, one {# día} other {# días}} desde tu última sesión: todavía estás a tiempo hoy',
+  'trend.steady': `Más o menos igual que ${ES_PERIOD}`,
+  'trend.up': `Subes {points, plural, one {# punto} other {# puntos}} desde ${ES_PERIOD}, sobre todo por {driver, select, baseScore {más días activos} distributionBonus {menos pausas largas} streakBonus {una racha actual más larga} other {sesiones más recientes}}`,
+  'trend.down': `Bajas {points, plural, one {# punto} other {# puntos}} desde ${ES_PERIOD}, sobre todo por {driver, select, baseScore {menos días activos} distributionBonus {pausas más largas entre sesiones} streakBonus {una racha actual más corta} other {menos actividad reciente}}`,
+  'typeMix.type':
+    '{type, select, run {corriste} walk {caminaste} cycle {pedaleaste} ride {pedaleaste} swim {nadaste} strength {levantaste pesas} lift {levantaste pesas} hike {hiciste senderismo} row {remaste} other {hiciste {type}}} {days, plural, one {# día} other {# días}}',
+  'typeMix.untyped':
+    'entrenaste {days, plural, one {# día} other {# días}} en otras actividades',
+  'typeMix.none': 'Aún no hay actividad en este periodo',
+  'typeMix.list': '{rest} y {last}',
+  'typeMix.summary': 'En este periodo {activities}',
+};
+
+export const DEFAULT_BUNDLES: Record<string, MessageBundle> = {
+  en: EN_MESSAGES,
+  es: ES_MESSAGES,
+};
+
+/**
+ * Renders messages for one locale
+ */
+export interface ExplanationRenderer {
+  locale: string; // Bundle actually used (after fallback)
+  render(message: ExplanationMessage): string;
+  renderAll(messages: ExplanationMessage[]): string[];
+}
+
+/**
+ * Create a renderer for `locale`
+ *
+ * Falls back from "es-MX" to "es" to English; keys missing from a bundle
+ * also fall back to English.
+ *
+ * @param locale - BCP 47 tag (default: "en")
+ * @param bundles - Templates by locale (default: English and Spanish)
+ */
+export function createExplanationRenderer(
+  locale: string = DEFAULT_LOCALE,
+  bundles: Record<string, MessageBundle> = DEFAULT_BUNDLES
+): ExplanationRenderer {
+  const resolved = [locale, locale.split('-')[0]].find(l => bundles[l]);
+  const bundle = resolved ? bundles[resolved] : undefined;
+  const formatLocale = resolved ?? DEFAULT_LOCALE;
+
+  const render = (message: ExplanationMessage) => {
+    const template =
+      bundle?.[message.key] ?? DEFAULT_BUNDLES[DEFAULT_LOCALE][message.key];
+    return template
+      ? formatMessage(template, message.params, formatLocale)
+      : message.key;
+  };
+
+  return {
+    locale: formatLocale,
+    render,
+    renderAll: messages => messages.map(render),
+  };
+}
+
+/**
+ * Render messages with the default bundles
+ */
+export function renderExplanations(
+  messages: ExplanationMessage[],
+  locale: string = DEFAULT_LOCALE
+): string[] {
+  return createExplanationRenderer(locale).renderAll(messages);
+}
+
+/**
+ * Format one ICU-style template (see module comment for the syntax)
+ */
+export function formatMessage(
+  template: string,
+  params: Record<string, string | number>,
+  locale: string
+): string {
+  let out = '';
+  let i = 0;
+
+  while (i < template.length) {
+    const open = template.indexOf('{', i);
+    if (open === -1) {
+      out += template.slice(i);
+      break;
+    }
+
+    const close = matchingBrace(template, open);
+    out += template.slice(i, open);
+    out += formatArgument(template.slice(open + 1, close), params, locale);
+    i = close + 1;
+  }
+
+  return out;
+}
+
+/**
+ * Format the inside of one `{…}` argument
+ */
+function formatArgument(
+  argument: string,
+  params: Record<string, string | number>,
+  locale: string
+): string {
+  const [name, type, ...rest] = argument.split(',');
+  const key = name.trim();
+  const value = params[key];
+
+  switch (type?.trim()) {
+    case undefined:
+      return formatValue(value, locale);
+
+    case 'plural': {
+      const n = Number(value);
+      const branches = parseBranches(rest.join(','));
+      const branch =
+        branches.get(`=${n}`) ??
+        branches.get(new Intl.PluralRules(locale).select(n)) ??
+        branches.get('other') ??
+        '';
+      const withCount = replaceTopLevelHash(branch, formatValue(n, locale));
+      return formatMessage(withCount, params, locale);
+    }
+
+    case 'select': {
+      const branches = parseBranches(rest.join(','));
+      const branch = branches.get(String(value)) ?? branches.get('other') ?? '';
+      return formatMessage(branch, params, locale);
+    }
+
+    case 'weekdays':
+      return formatWeekdays(String(value), locale);
+
+    default:
+      return formatValue(value, locale);
+  }
+}
+
+/**
+ * `one {…} other {…}` → Map of selector to branch body
+ */
+function parseBranches(source: string): Map<string, string> {
+  const branches = new Map<string, string>();
+  let i = 0;
+
+  while (i < source.length) {
+    const open = source.indexOf('{', i);
+    if (open === -1) break;
+
+    const close = matchingBrace(source, open);
+    branches.set(source.slice(i, open).trim(), source.slice(open + 1, close));
+    i = close + 1;
+  }
+
+  return branches;
+}
+
+/**
+ * Index of the `}` closing the `{` at `open`
+ */
+function matchingBrace(source: string, open: number): number {
+  let depth = 0;
+
+  for (let i = open; i < source.length; i++) {
+    if (source[i] === '{') depth++;
+    if (source[i] === '}' && --depth === 0) return i;
+  }
+
+  throw new Error(`Unbalanced braces in message: ${source}`);
+}
+
+/**
+ * Replace `#` outside nested arguments
+ */
+function replaceTopLevelHash(branch: string, count: string): string {
+  let depth = 0;
+  let out = '';
+
+  for (const ch of branch) {
+    if (ch === '{') depth++;
+    if (ch === '}') depth--;
+    out += ch === '#' && depth === 0 ? count : ch;
+  }
+
+  return out;
+}
+
+/**
+ * Locale-formatted number, or the string as is
+ */
+function formatValue(
+  value: string | number | undefined,
+  locale: string
+): string {
+  if (typeof value === 'number') {
+    return new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }).format(
+      value
+    );
+  }
+  return value ?? '';
+}
+
+/**
+ * "Saturday" for one day, "Mon/Wed/Fri" (Monday first) for several
+ */
+function formatWeekdays(days: string, locale: string): string {
+  const weekdays = days
+    .split(',')
+    .map(Number)
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7));
+
+  const style = weekdays.length === 1 ? 'long' : 'short';
+  const formatter = new Intl.DateTimeFormat(locale, {
+    weekday: style,
+    timeZone: 'UTC',
+  });
+
+  // 2024-01-07 was a Sunday
+  return weekdays
+    .map(w => formatter.format(new Date(Date.UTC(2024, 0, 7 + w))))
+    .join('/');
+}
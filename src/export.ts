@@ -0,0 +1,466 @@
+/**
+ * Score exports: CSV, JSON Lines and iCalendar
+ *
+ * Every format is built from the same per-day rows (sessions bucketed
+ * into ActiveDays in the user's timezone, plus that day's score), so
+ * exports agree with each other and with the app. Schemas are a public
+ * contract: add columns at the end, never rename or reorder them. Each
+ * format has a parser that reads its own output back.
+ */
+
+import {
+  ActiveDay,
+  ActivityStreak,
+  ExportDayRow,
+  IcsExportOptions,
+  IcsImport,
+  ScoreHistoryInput,
+  StreakRules,
+} from './types';
+import { addDays, daysBetween } from './dates';
+import { groupSessionsByDay } from './scoring';
+import { findStreaks } from './streaks';
+import { calculateScoreHistory } from './history';
+import { acceptSessions } from './validation';
+import { SCORING_VERSION } from './config';
+import { ExportFormatError } from './errors';
+
+/**
+ * CSV header, in column order
+ */
+export const CSV_COLUMNS = [
+  'date',
+  'active',
+  'session_count',
+  'total_duration_sec',
+  'score',
+] as const;
+
+const DEFAULT_CALENDAR_NAME = 'Training consistency';
+const DEFAULT_MIN_STREAK_DAYS = 3;
+const UID_DOMAIN = 'consistency-score';
+const ICS_LINE_OCTETS = 75;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * One row per day from startDate to endDate (inclusive)
+ *
+ * Takes the same input as calculateScoreHistory; the window should reach
+ * windowDays - 1 days before startDate for the first scores to be exact.
+ */
+export function buildExportRows(input: ScoreHistoryInput): ExportDayRow[] {
+  const { timezone = 'UTC' } = input;
+
+  const history = calculateScoreHistory(input);
+  if (history.length === 0) return [];
+
+  // Same accepted sessions the history scored
+  const lastDay = history[history.length - 1].date;
+  const byDate = new Map(
+    groupSessionsByDay(
+      acceptSessions(input.sessions, lastDay, timezone, input),
+      timezone,
+      input.minSessionDurationSec
+    ).map(d => [d.date, d])
+  );
+
+  return history.map(point => {
+    const day = byDate.get(point.date);
+    return {
+      date: point.date,
+      active: day !== undefined,
+      sessionCount: day?.sessionCount ?? 0,
+      totalDurationSec: day?.totalDurationSec ?? 0,
+      score: point.score,
+    };
+  });
+}
+
+/**
+ * RFC 4180 CSV with a CSV_COLUMNS header (CRLF line endings)
+ */
+export function exportCsv(rows: ExportDayRow[]): string {
+  const lines = [
+    CSV_COLUMNS.join(','),
+    ...rows.map(r =>
+      [r.date, r.active, r.sessionCount, r.totalDurationSec, r.score].join(',')
+    ),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Read rows back from exportCsv output
+ *
+ * @throws ExportFormatError if the header or a row doesn't match the schema
+ */
+export function parseCsv(csv: string): ExportDayRow[] {
+  const [header, ...lines] = csv.split(/\r?\n/);
+
+  if (header !== CSV_COLUMNS.join(',')) {
+    throw new ExportFormatError(
+      `expected header "${CSV_COLUMNS.join(',')}"`,
+      1
+    );
+  }
+
+  return lines.flatMap((line, i) => {
+    if (line === '') return [];
+
+    const fields = line.split(',');
+    if (fields.length !== CSV_COLUMNS.length) {
+      throw new ExportFormatError(
+        `expected ${CSV_COLUMNS.length} fields, got ${fields.length}`,
+        i + 2
+      );
+    }
+
+    const [date, active, sessionCount, totalDurationSec, score] = fields;
+    const flags: Record<string, boolean> = { true: true, false: false };
+    return [
+      checkRow(
+        {
+          date,
+          active: flags[active] ?? active,
+          sessionCount: Number(sessionCount),
+          totalDurationSec: Number(totalDurationSec),
+          score: Number(score),
+        },
+        i + 2
+      ),
+    ];
+  });
+}
+
+/**
+ * One JSON object per line, keys in ExportDayRow order
+ */
+export function exportJsonLines(rows: ExportDayRow[]): string {
+  return rows
+    .map(r =>
+      JSON.stringify({
+        date: r.date,
+        active: r.active,
+        sessionCount: r.sessionCount,
+        totalDurationSec: r.totalDurationSec,
+        score: r.score,
+      })
+    )
+    .map(line => `${line}\n`)
+    .join('');
+}
+
+/**
+ * Read rows back from exportJsonLines output (blank lines are skipped)
+ *
+ * @throws ExportFormatError if a line isn't JSON or doesn't match the schema
+ */
+export function parseJsonLines(jsonl: string): ExportDayRow[] {
+  return jsonl.split(/\r?\n/).flatMap((line, i) => {
+    if (line.trim() === '') return [];
+
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new ExportFormatError('invalid JSON', i + 1);
+    }
+
+    return [checkRow(value, i + 1)];
+  });
+}
+
+/**
+ * iCalendar (RFC 5545) with an all-day event per active day and one
+ * spanning each streak of at least minStreakDays active days
+ *
+ * Streaks follow the score's streak rules (pass the same `streak`
+ * option); freezes are budgeted once over the exported range.
+ *
+ * Events are transparent (they never block time) and carry stable UIDs,
+ * so re-importing an updated export replaces events instead of
+ * duplicating them.
+ */
+export function exportIcs(
+  rows: ExportDayRow[],
+  options: IcsExportOptions = {}
+): string {
+  const {
+    calendarName = DEFAULT_CALENDAR_NAME,
+    minStreakDays = DEFAULT_MIN_STREAK_DAYS,
+    generatedAt = new Date(),
+    streak,
+  } = options;
+
+  const stamp = generatedAt.toISOString().replace(/[-:]|\.\d{3}/g, '');
+  const active = rows.filter(r => r.active);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${UID_DOMAIN}//export ${SCORING_VERSION}//EN`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+
+  const event = (
+    uid: string,
+    start: string,
+    end: string,
+    summary: string,
+    category: string,
+    extra: string[] = []
+  ) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${uid}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(start)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDays(end, 1))}`,
+      `SUMMARY:${escapeText(summary)}`,
+      `CATEGORIES:${category}`,
+      'TRANSP:TRANSPARENT',
+      ...extra,
+      'END:VEVENT'
+    );
+  };
+
+  for (const day of active) {
+    const sessions = day.sessionCount === 1 ? 'session' : 'sessions';
+    const minutes = Math.round(day.totalDurationSec / 60);
+    event(
+      `active-${day.date}`,
+      day.date,
+      day.date,
+      `Trained: ${day.sessionCount} ${sessions}, ${minutes} min`,
+      'ACTIVE-DAY',
+      [
+        `X-SESSION-COUNT:${day.sessionCount}`,
+        `X-TOTAL-DURATION-SEC:${day.totalDurationSec}`,
+      ]
+    );
+  }
+
+  for (const run of exportStreaks(rows, streak)) {
+    if (run.days < minStreakDays) continue;
+    event(
+      `streak-${run.start}`,
+      run.start,
+      run.end,
+      `${run.days}-day streak`,
+      'STREAK',
+      [`X-STREAK-DAYS:${run.days}`]
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Read active days and streaks back from exportIcs output
+ *
+ * Other events (e.g. added by a calendar app) are ignored.
+ *
+ * @throws ExportFormatError if it isn't a calendar, or an export event
+ *   lacks its dates or counts
+ */
+export function parseIcs(ics: string): IcsImport {
+  const physical = ics.split(/\r?\n/);
+  if (physical[0] !== 'BEGIN:VCALENDAR') {
+    throw new ExportFormatError('expected BEGIN:VCALENDAR', 1);
+  }
+
+  // Unfold continuation lines, remembering where each logical line began
+  const lines: { text: string; line: number }[] = [];
+  physical.forEach((text, i) => {
+    if (/^[ \t]/.test(text) && lines.length) {
+      lines[lines.length - 1].text += text.slice(1);
+    } else if (text !== '') {
+      lines.push({ text, line: i + 1 });
+    }
+  });
+
+  const activeDays: ActiveDay[] = [];
+  const streaks: ActivityStreak[] = [];
+  let event: Map<string, string> | null = null;
+  let eventLine = 0;
+
+  for (const { text, line } of lines) {
+    if (text === 'BEGIN:VEVENT') {
+      event = new Map();
+      eventLine = line;
+      continue;
+    }
+
+    if (text === 'END:VEVENT' && event) {
+      readEvent(event, eventLine, activeDays, streaks);
+      event = null;
+      continue;
+    }
+
+    if (event) {
+      const colon = text.indexOf(':');
+      const name = text.slice(0, colon).split(';')[0];
+      event.set(name, text.slice(colon + 1));
+    }
+  }
+
+  activeDays.sort((a, b) => a.date.localeCompare(b.date));
+  streaks.sort((a, b) => a.start.localeCompare(b.start));
+  return { activeDays, streaks };
+}
+
+/**
+ * Streaks over the exported days, the whole range as one window
+ */
+function exportStreaks(
+  rows: ExportDayRow[],
+  rules?: StreakRules
+): ActivityStreak[] {
+  if (rows.length === 0) return [];
+
+  const first = rows[0].date;
+  const last = rows[rows.length - 1].date;
+  const activeDays = rows
+    .filter(r => r.active)
+    .map(({ date, sessionCount, totalDurationSec }) => ({
+      date,
+      sessionCount,
+      totalDurationSec,
+    }));
+
+  return findStreaks(activeDays, last, daysBetween(first, last) + 1, rules);
+}
+
+/**
+ * Add an export event to the import, if it is one
+ */
+function readEvent(
+  event: Map<string, string>,
+  line: number,
+  activeDays: ActiveDay[],
+  streaks: ActivityStreak[]
+): void {
+  const category = event.get('CATEGORIES');
+  if (category !== 'ACTIVE-DAY' && category !== 'STREAK') return;
+
+  const start = parseIcsDate(event.get('DTSTART'));
+  const endExclusive = parseIcsDate(event.get('DTEND'));
+  if (!start || !endExclusive) {
+    throw new ExportFormatError('event needs DTSTART and DTEND dates', line);
+  }
+
+  if (category === 'STREAK') {
+    const end = addDays(endExclusive, -1);
+    const days = Number(event.get('X-STREAK-DAYS'));
+    streaks.push({
+      start,
+      end,
+      // Older exports only had the span
+      days: Number.isInteger(days) ? days : daysBetween(start, end) + 1,
+    });
+    return;
+  }
+
+  const sessionCount = Number(event.get('X-SESSION-COUNT'));
+  const totalDurationSec = Number(event.get('X-TOTAL-DURATION-SEC'));
+  if (!Number.isInteger(sessionCount) || !Number.isFinite(totalDurationSec)) {
+    throw new ExportFormatError(
+      'active day needs X-SESSION-COUNT and X-TOTAL-DURATION-SEC',
+      line
+    );
+  }
+
+  activeDays.push({ date: start, sessionCount, totalDurationSec });
+}
+
+/**
+ * A parsed line as an ExportDayRow, or ExportFormatError
+ */
+function checkRow(value: unknown, line: number): ExportDayRow {
+  const row = value as Partial<Record<keyof ExportDayRow, unknown>> | null;
+  const isCount = (v: unknown) => Number.isInteger(v) && (v as number) >= 0;
+
+  if (typeof row !== 'object' || row === null) {
+    throw new ExportFormatError('expected an object', line);
+  }
+  if (typeof row.date !== 'string' || !DATE_PATTERN.test(row.date)) {
+    throw new ExportFormatError('date must be YYYY-MM-DD', line);
+  }
+  if (typeof row.active !== 'boolean') {
+    throw new ExportFormatError('active must be true or false', line);
+  }
+  if (!isCount(row.sessionCount) || !isCount(row.score)) {
+    throw new ExportFormatError(
+      'sessionCount and score must be non-negative integers',
+      line
+    );
+  }
+  if (
+    typeof row.totalDurationSec !== 'number' ||
+    !(row.totalDurationSec >= 0)
+  ) {
+    throw new ExportFormatError('totalDurationSec must be >= 0', line);
+  }
+
+  return {
+    date: row.date,
+    active: row.active,
+    sessionCount: row.sessionCount as number,
+    totalDurationSec: row.totalDurationSec,
+    score: row.score as number,
+  };
+}
+
+function icsDate(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+/**
+ * "20240603" → "2024-06-03" (undefined if not a DATE value)
+ */
+function parseIcsDate(value?: string): string | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+/**
+ * Escape TEXT values (RFC 5545 §3.3.11)
+ */
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 octets (RFC 5545 §3.1), never splitting a
+ * UTF-8 character
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch);
+    // Continuation lines spend one octet on the leading space
+    const limit = parts.length ? ICS_LINE_OCTETS - 1 : ICS_LINE_OCTETS;
+
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+
+    current += ch;
+    octets += size;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+}
@@ -0,0 +1,106 @@
+/**
+ * Goal-based scoring: measure attainment against a weekly target
+ *
+ * Replaces the fixed "every day counts" frequency ratio for users who
+ * deliberately train a few times per week.
+ */
+
+import { ActiveDay, GoalProgress, GoalWeekResult, ScoringGoal } from './types';
+import { addDays, daysBetween, startOfWeek } from './dates';
+import { ScoringConfigError } from './errors';
+
+const DEFAULT_WEEK_STARTS_ON = 1; // Monday
+
+/**
+ * Reject goals that cannot be scored
+ */
+export function validateGoal(goal: ScoringGoal): void {
+  const { activeDaysPerWeek, weekStartsOn = DEFAULT_WEEK_STARTS_ON } = goal;
+
+  if (
+    !Number.isInteger(activeDaysPerWeek) ||
+    activeDaysPerWeek < 1 ||
+    activeDaysPerWeek > 7
+  ) {
+    throw new ScoringConfigError(
+      `goal.activeDaysPerWeek must be an integer from 1 to 7 (got ${activeDaysPerWeek})`
+    );
+  }
+
+  if (!Number.isInteger(weekStartsOn) || weekStartsOn < 0 || weekStartsOn > 6) {
+    throw new ScoringConfigError(
+      `goal.weekStartsOn must be an integer from 0 to 6 (got ${weekStartsOn})`
+    );
+  }
+}
+
+/**
+ * Evaluate every calendar week overlapping the window ending on referenceDay
+ *
+ * Rules:
+ * - Full weeks must reach the goal
+ * - The partial week at the window start gets a prorated target
+ * - The current week is "in-progress" until met, and only counts once met
+ * - Attainment = per-week credit (capped at 1), weighted by days in window
+ */
+export function evaluateGoal(
+  activeDays: ActiveDay[],
+  referenceDay: string,
+  goal: ScoringGoal,
+  windowDays: number
+): GoalProgress {
+  validateGoal(goal);
+
+  const { activeDaysPerWeek, weekStartsOn = DEFAULT_WEEK_STARTS_ON } = goal;
+  const windowStart = addDays(referenceDay, -(windowDays - 1));
+  const activeDaySet = new Set(activeDays.map(d => d.date));
+
+  const weeks: GoalWeekResult[] = [];
+  let weightedCredit = 0;
+  let evaluatedDays = 0;
+
+  for (
+    let weekStart = startOfWeek(windowStart, weekStartsOn);
+    weekStart <= referenceDay;
+    weekStart = addDays(weekStart, 7)
+  ) {
+    const weekEnd = addDays(weekStart, 6);
+    const from = weekStart < windowStart ? windowStart : weekStart;
+    const to = weekEnd > referenceDay ? referenceDay : weekEnd;
+    const daysInWindow = daysBetween(from, to) + 1;
+
+    let active = 0;
+    for (let d = from; d <= to; d = addDays(d, 1)) {
+      if (activeDaySet.has(d)) active++;
+    }
+
+    const inProgress = weekEnd > referenceDay;
+    const target = inProgress
+      ? activeDaysPerWeek
+      : Math.min(
+          daysInWindow,
+          Math.ceil((activeDaysPerWeek * daysInWindow) / 7)
+        );
+
+    const met = active >= target;
+    const status = met ? 'met' : inProgress ? 'in-progress' : 'missed';
+
+    if (status !== 'in-progress') {
+      weightedCredit += Math.min(active / target, 1) * daysInWindow;
+      evaluatedDays += daysInWindow;
+    }
+
+    weeks.push({ weekStart, weekEnd, daysInWindow, activeDays: active, target, status });
+  }
+
+  const evaluated = weeks.filter(w => w.status !== 'in-progress');
+
+  return {
+    activeDaysPerWeek,
+    weekStartsOn,
+    attainment: evaluatedDays > 0 ? weightedCredit / evaluatedDays : 0,
+    weeksMet: evaluated.filter(w => w.status === 'met').length,
+    weeksEvaluated: evaluated.length,
+    weeks,
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Daily score history for sparkline charts
+ *
+ * Sessions are bucketed once; each day then scores a sliding window over
+ * the same sorted active days (no re-bucketing, no per-day Intl calls).
+ */
+
+import { ScoreHistoryInput, ScoreHistoryPoint } from './types';
+import { addDays, toLocalDateString } from './dates';
+import { calculateScoreComponents, groupSessionsByDay } from './scoring';
+import { DEFAULT_SCORING_CONFIG, validateScoringConfig } from './config';
+import { acceptSessions } from './validation';
+
+/**
+ * Consistency score for every day from startDate to endDate (inclusive),
+ * as if each day were the referenceDate
+ *
+ * Scores match calculateConsistencyScore over the sessions inside each
+ * day's window.
+ */
+export function calculateScoreHistory(
+  input: ScoreHistoryInput
+): ScoreHistoryPoint[] {
+  const {
+    sessions,
+    startDate,
+    endDate = new Date(),
+    timezone = 'UTC',
+    config = DEFAULT_SCORING_CONFIG,
+  } = input;
+
+  validateScoringConfig(config);
+
+  const firstDay = toLocalDateString(startDate, timezone);
+  const lastDay = toLocalDateString(endDate, timezone);
+  const activeDays = groupSessionsByDay(
+    acceptSessions(sessions, lastDay, timezone, input),
+    timezone,
+    input.minSessionDurationSec
+  );
+
+  const points: ScoreHistoryPoint[] = [];
+
+  // Sliding window [lo, hi) over the sorted active days
+  let lo = 0;
+  let hi = 0;
+
+  for (let day = firstDay; day <= lastDay; day = addDays(day, 1)) {
+    const windowStart = addDays(day, -(config.windowDays - 1));
+
+    while (hi < activeDays.length && activeDays[hi].date <= day) hi++;
+    while (lo < hi && activeDays[lo].date < windowStart) lo++;
+
+    const { score, metadata, breakdown } = calculateScoreComponents(
+      activeDays.slice(lo, hi),
+      day,
+      input
+    );
+
+    points.push({
+      date: day,
+      score,
+      activeDays: metadata.activeDays,
+      breakdown,
+    });
+  }
+
+  return points;
+}
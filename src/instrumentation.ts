@@ -0,0 +1,140 @@
+/**
+ * Logging and metrics hooks
+ *
+ * Scoring and the Firestore helpers report through an Instrumentation
+ * passed in their options; nothing is recorded unless one is supplied.
+ * Adapt any logger (console, pino, …) and metrics client (StatsD,
+ * OpenTelemetry, …) to the two small interfaces in types.ts.
+ *
+ * Metrics emitted:
+ * - `score.duration_ms` (timing): one calculateConsistencyScore call
+ * - `score.value` (histogram): final score
+ * - `firestore.reads` (counter, tag `operation`): billed document reads
+ * - `firestore.latency_ms` (timing, tag `operation`): one query helper call
+ * - `firestore.errors` (counter, tag `operation`): failed query helper calls
+ * - `firestore.batch_errors` (counter): users a batch fetch gave up on
+ * - `firestore.batch_retries` (counter): retried batch fetch attempts
+ */
+
+import { Instrumentation, Logger, MetricTags, MetricsSink } from './types';
+
+export const METRIC_SCORE_DURATION = 'score.duration_ms';
+export const METRIC_SCORE_VALUE = 'score.value';
+export const METRIC_FIRESTORE_READS = 'firestore.reads';
+export const METRIC_FIRESTORE_LATENCY = 'firestore.latency_ms';
+export const METRIC_FIRESTORE_ERRORS = 'firestore.errors';
+export const METRIC_BATCH_ERRORS = 'firestore.batch_errors';
+export const METRIC_BATCH_RETRIES = 'firestore.batch_retries';
+
+const noop = () => undefined;
+
+/**
+ * Discards everything (the default)
+ */
+export const NOOP_INSTRUMENTATION: Instrumentation = {
+  logger: { debug: noop, info: noop, warn: noop, error: noop },
+  metrics: { increment: noop, timing: noop, histogram: noop },
+};
+
+/**
+ * One recorded log call
+ */
+export interface LogRecord {
+  level: keyof Logger;
+  message: string;
+  fields: Record<string, unknown>;
+}
+
+/**
+ * One recorded metric call
+ */
+export interface MetricRecord {
+  kind: keyof MetricsSink;
+  name: string;
+  value: number;
+  tags: MetricTags;
+}
+
+/**
+ * Instrumentation that keeps every call, for tests and debugging
+ */
+export interface InMemoryInstrumentation extends Instrumentation {
+  logs: LogRecord[];
+  metricRecords: MetricRecord[];
+  values(name: string): number[]; // Recorded values of one metric, in order
+  clear(): void;
+}
+
+/**
+ * Create an in-memory instrumentation
+ */
+export function createInMemoryInstrumentation(): InMemoryInstrumentation {
+  const logs: LogRecord[] = [];
+  const metricRecords: MetricRecord[] = [];
+
+  const log =
+    (level: keyof Logger) =>
+    (message: string, fields: Record<string, unknown> = {}) => {
+      logs.push({ level, message, fields });
+    };
+
+  const record =
+    (kind: keyof MetricsSink) =>
+    (name: string, value: number = 1, tags: MetricTags = {}) => {
+      metricRecords.push({ kind, name, value, tags });
+    };
+
+  return {
+    logs,
+    metricRecords,
+    logger: {
+      debug: log('debug'),
+      info: log('info'),
+      warn: log('warn'),
+      error: log('error'),
+    },
+    metrics: {
+      increment: record('increment'),
+      timing: record('timing'),
+      histogram: record('histogram'),
+    },
+    values: name =>
+      metricRecords.filter(m => m.name === name).map(m => m.value),
+    clear: () => {
+      logs.length = 0;
+      metricRecords.length = 0;
+    },
+  };
+}
+
+/**
+ * Run an async operation, recording its latency, reads and failures
+ *
+ * @param countReads - Billed reads for a successful result
+ */
+export async function measureOperation<T>(
+  instrumentation: Instrumentation,
+  operation: string,
+  run: () => Promise<T>,
+  countReads: (result: T) => number
+): Promise<T> {
+  const { logger, metrics } = instrumentation;
+  const tags = { operation };
+  const start = performance.now();
+
+  try {
+    const result = await run();
+    const durationMs = performance.now() - start;
+    const reads = countReads(result);
+
+    metrics.timing(METRIC_FIRESTORE_LATENCY, durationMs, tags);
+    metrics.increment(METRIC_FIRESTORE_READS, reads, tags);
+    logger.debug('firestore.query', { operation, reads, durationMs });
+
+    return result;
+  } catch (error) {
+    metrics.timing(METRIC_FIRESTORE_LATENCY, performance.now() - start, tags);
+    metrics.increment(METRIC_FIRESTORE_ERRORS, 1, tags);
+    throw error;
+  }
+}
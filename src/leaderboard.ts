@@ -0,0 +1,201 @@
+/**
+ * Opt-in group leaderboards for private teams
+ *
+ * Scoring itself stays non-comparative (see SCORING_DESIGN.md); this
+ * module only ranks members who chose to appear, inside a group:
+ * - Members are hidden unless their visibility says otherwise; hidden
+ *   members are neither ranked nor counted in anyone's percentile
+ * - Anonymous members are ranked without user ID or name
+ * - Percentiles need a minimum number of ranked members, so small
+ *   groups can't back out individual scores
+ *
+ * Scores come from the score cache (one document read per member), not
+ * from re-querying sessions.
+ */
+
+import {
+  ConsistencyScore,
+  ExplanationMessage,
+  Group,
+  GroupMember,
+  Leaderboard,
+  LeaderboardEntry,
+  LeaderboardOptions,
+  ScoreBreakdown,
+  ViewerStanding,
+} from './types';
+import { ScoreCacheStore, scoreFromCacheDocument } from './cache';
+import { renderExplanations } from './explanations';
+
+export const DEFAULT_MIN_PERCENTILE_GROUP_SIZE = 5;
+
+// Equal scores are ordered by these components, in this order
+const TIE_BREAKERS: (keyof ScoreBreakdown)[] = [
+  'baseScore',
+  'distributionBonus',
+  'streakBonus',
+  'recencyBonus',
+];
+
+// Components closer than this are treated as equal (float noise)
+const COMPONENT_EPSILON = 1e-9;
+
+/**
+ * A member with the score they are ranked by
+ */
+export interface ScoredGroupMember {
+  member: GroupMember;
+  score: ConsistencyScore;
+}
+
+/**
+ * Leaderboard for a group, read from cached scores
+ *
+ * Hidden members are not read at all. Members without a cached score are
+ * left out. Callers must check that the viewer may see the group.
+ */
+export async function getGroupLeaderboard(
+  store: ScoreCacheStore,
+  group: Group,
+  options: LeaderboardOptions = {}
+): Promise<Leaderboard> {
+  const participating = group.members.filter(
+    m => (m.visibility ?? 'hidden') !== 'hidden'
+  );
+
+  const scored = await Promise.all(
+    participating.map(async member => {
+      const score = await readCachedScore(store, member, options);
+      return score ? { member, score } : null;
+    })
+  );
+
+  return rankGroupMembers(
+    group.id,
+    scored.filter((s): s is ScoredGroupMember => s !== null),
+    options
+  );
+}
+
+/**
+ * Rank already scored members (hidden ones are dropped)
+ */
+export function rankGroupMembers(
+  groupId: string,
+  scored: ScoredGroupMember[],
+  options: LeaderboardOptions = {}
+): Leaderboard {
+  const {
+    viewerId,
+    minPercentileGroupSize = DEFAULT_MIN_PERCENTILE_GROUP_SIZE,
+  } = options;
+
+  const ranked = scored
+    .filter(s => (s.member.visibility ?? 'hidden') !== 'hidden')
+    .sort(
+      (a, b) =>
+        compareScores(a.score, b.score) ||
+        a.member.userId.localeCompare(b.member.userId)
+    );
+
+  const entries: LeaderboardEntry[] = [];
+  let viewer: ViewerStanding | null = null;
+
+  ranked.forEach(({ member, score }, i) => {
+    const tied =
+      i > 0 && compareScores(ranked[i - 1].score, score) === 0;
+    const rank = tied ? entries[i - 1].rank : i + 1;
+    const isViewer = member.userId === viewerId;
+    const shown = member.visibility === 'visible' || isViewer;
+
+    entries.push({
+      rank,
+      userId: shown ? member.userId : null,
+      displayName: shown ? member.displayName ?? null : null,
+      score: score.score,
+      isViewer,
+    });
+
+    if (isViewer) {
+      const percentile =
+        ranked.length >= minPercentileGroupSize
+          ? percentBelow(score.score, ranked, i)
+          : null;
+      viewer = standing(rank, percentile, options.locale);
+    }
+  });
+
+  return { groupId, entries, rankedMembers: ranked.length, viewer };
+}
+
+/**
+ * Cached score in the member's zone (falls back to the cache's own zone)
+ *
+ * One document read; a stale day is re-derived in memory, never written.
+ */
+async function readCachedScore(
+  store: ScoreCacheStore,
+  member: GroupMember,
+  options: LeaderboardOptions
+): Promise<ConsistencyScore | null> {
+  const doc = await store.read(member.userId);
+  if (!doc) return null;
+
+  return scoreFromCacheDocument(doc, {
+    ...options,
+    timezone: member.timezone ?? doc.timezone,
+  });
+}
+
+/**
+ * Higher score first, then higher components in TIE_BREAKERS order
+ */
+function compareScores(a: ConsistencyScore, b: ConsistencyScore): number {
+  if (a.score !== b.score) return b.score - a.score;
+
+  for (const component of TIE_BREAKERS) {
+    const diff = b.breakdown[component] - a.breakdown[component];
+    if (Math.abs(diff) > COMPONENT_EPSILON) return diff;
+  }
+
+  return 0;
+}
+
+/**
+ * Share of the other ranked members with a strictly lower score (0–100)
+ */
+function percentBelow(
+  score: number,
+  ranked: ScoredGroupMember[],
+  self: number
+): number {
+  const others = ranked.filter((_, i) => i !== self);
+  const below = others.filter(o => o.score.score < score).length;
+  return Math.round((below / others.length) * 100);
+}
+
+/**
+ * Viewer standing with a "more consistent than X%" message
+ */
+function standing(
+  rank: number,
+  percentile: number | null,
+  locale?: string
+): ViewerStanding {
+  const message: ExplanationMessage | null =
+    percentile === null
+      ? null
+      : {
+          key: 'group.percentile',
+          params: { pct: percentile },
+          tone: percentile >= 50 ? 'positive' : 'neutral',
+          component: null,
+        };
+
+  return {
+    rank,
+    percentile,
+    message,
+    text: message ? renderExplanations([message], locale)[0] : null,
+  };
+}
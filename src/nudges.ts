@@ -0,0 +1,421 @@
+/**
+ * Lapse-risk detection and re-engagement nudge scheduling
+ *
+ * A user is lapsing when their current gap is abnormally long *for
+ * them*: compared with their own typical gap and its spread, never with
+ * a fixed rule. Nudges are about training days only (non-medical), are
+ * timed for the user's usual training weekdays outside quiet hours in
+ * their timezone, and respect per-user rate limits.
+ *
+ * decideNudge is pure (fixed reference dates in, decision out);
+ * scanForLapses wires it to a SessionRepository for many users.
+ */
+
+import {
+  ConsistencyMetadata,
+  ExplanationMessage,
+  LapseRisk,
+  LapseRiskOptions,
+  LapseScanEntry,
+  LapseScanOptions,
+  LapseScanResult,
+  NudgeCandidate,
+  NudgeDecision,
+  NudgeInput,
+  NudgePolicy,
+  QuietHours,
+} from './types';
+import {
+  addDays,
+  atLocalHour,
+  dayOfWeek,
+  daysBetween,
+  toLocalDateString,
+} from './dates';
+import { calculateConsistencyScore } from './scoring';
+import { DEFAULT_SCORING_CONFIG } from './config';
+import { DEFAULT_BATCH_CONCURRENCY, SessionRepository } from './repository';
+import { createExplanationRenderer } from './explanations';
+import { ScoringConfigError } from './errors';
+
+export const DEFAULT_QUIET_HOURS: QuietHours = { start: 21, end: 8 };
+
+const DEFAULT_MIN_GAPS = 3;
+const DEFAULT_STD_DEVS = 2;
+const DEFAULT_MIN_LAPSE_DAYS = 3;
+const DEFAULT_MAX_NUDGES_PER_WEEK = 2;
+const DEFAULT_MIN_HOURS_BETWEEN_NUDGES = 48;
+const DEFAULT_HORIZON_DAYS = 7;
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+const MS_PER_WEEK = MS_PER_HOUR * 24 * 7;
+
+/**
+ * Compare the current gap with the user's own gap history
+ *
+ * Needs `minGaps` gaps in the scored window; with fewer, what's "usual"
+ * is unknown and the user is never flagged. Score a lookback longer than
+ * the lapses to catch (scanForLapses uses twice the scoring window):
+ * a long lapse leaves few gaps in a single window.
+ */
+export function assessLapseRisk(
+  metadata: ConsistencyMetadata,
+  options: LapseRiskOptions = {}
+): LapseRisk {
+  const {
+    minGaps = DEFAULT_MIN_GAPS,
+    stdDevs = DEFAULT_STD_DEVS,
+    minLapseDays = DEFAULT_MIN_LAPSE_DAYS,
+  } = options;
+  const { daysSinceLastSession, averageGap, gapStats } = metadata;
+  const usualWeekdays = metadata.rhythm?.weekdays ?? [];
+
+  if (gapStats.count < minGaps) {
+    return {
+      status: 'insufficient-history',
+      daysSinceLastSession,
+      typicalGap: null,
+      expectedMaxGap: null,
+      usualWeekdays,
+    };
+  }
+
+  const expectedMaxGap = averageGap + stdDevs * gapStats.stdDev;
+  const lapsing =
+    daysSinceLastSession >= minLapseDays &&
+    daysSinceLastSession > expectedMaxGap;
+
+  return {
+    status: lapsing ? 'lapsing' : 'on-track',
+    daysSinceLastSession,
+    typicalGap: averageGap,
+    expectedMaxGap,
+    usualWeekdays,
+  };
+}
+
+/**
+ * Decide whether and when to nudge one user
+ *
+ * Lapsing users get the first slot that is:
+ * - on one of their usual weekdays (any day without a rhythm), from today
+ *   up to `horizonDays` ahead
+ * - outside quiet hours in their timezone, and not before "now"
+ * - allowed by minHoursBetweenNudges and maxNudgesPerWeek
+ *
+ * @throws ScoringConfigError if the policy is out of range
+ * @throws InvalidTimezoneError if the timezone is not a valid IANA zone
+ */
+export function decideNudge(input: NudgeInput): NudgeDecision {
+  const {
+    score,
+    referenceDate = new Date(),
+    timezone = 'UTC',
+    recentNudges = [],
+    policy = {},
+  } = input;
+  const {
+    quietHours = DEFAULT_QUIET_HOURS,
+    horizonDays = DEFAULT_HORIZON_DAYS,
+  } = policy;
+
+  validateNudgePolicy(policy);
+
+  const risk = assessLapseRisk(score.metadata, policy);
+  const notSent = { risk, sendAt: null, message: null, text: null };
+
+  if (risk.status === 'on-track') return { ...notSent, reason: 'not-lapsing' };
+  if (risk.status === 'insufficient-history') {
+    return { ...notSent, reason: 'insufficient-history' };
+  }
+
+  const earliest = earliestAllowed(referenceDate, recentNudges, policy);
+  const today = toLocalDateString(referenceDate, timezone);
+
+  for (let offset = 0; offset <= horizonDays; offset++) {
+    const day = addDays(today, offset);
+    const weekday = dayOfWeek(day);
+    if (risk.usualWeekdays.length && !risk.usualWeekdays.includes(weekday)) {
+      continue;
+    }
+
+    const sendAt = firstOpenSlot(day, earliest, quietHours, timezone);
+    if (!sendAt) continue;
+
+    const message: ExplanationMessage = risk.usualWeekdays.length
+      ? {
+          key: 'nudge.usualDay',
+          params: { day: weekday },
+          tone: 'neutral',
+          component: null,
+        }
+      : {
+          key: 'nudge.sinceLast',
+          params: { days: risk.daysSinceLastSession + offset },
+          tone: 'neutral',
+          component: null,
+        };
+
+    return {
+      risk,
+      reason: 'scheduled',
+      sendAt,
+      message,
+      text: createExplanationRenderer(input.locale).render(message),
+    };
+  }
+
+  return { ...notSent, reason: 'rate-limited' };
+}
+
+/**
+ * Flag lapsing users and schedule their nudges
+ *
+ * Two passes keep reads low:
+ * 1. getLastSession per user (one read, plus a profile read for the
+ *    timezone when the candidate doesn't carry one); users who trained
+ *    within minLapseDays can't be lapsing and stop here
+ * 2. The rest have their lookback (default: two scoring windows)
+ *    batch-fetched per timezone, scored over the lookback and passed to
+ *    decideNudge
+ *
+ * Failures are reported per user and never abort the scan.
+ *
+ * @throws ScoringConfigError if the policy or lookbackDays is out of range
+ */
+export async function scanForLapses(
+  repo: SessionRepository,
+  candidates: NudgeCandidate[],
+  options: LapseScanOptions = {}
+): Promise<LapseScanResult> {
+  const {
+    referenceDate = new Date(),
+    config = DEFAULT_SCORING_CONFIG,
+    concurrency = DEFAULT_BATCH_CONCURRENCY,
+    minLapseDays = DEFAULT_MIN_LAPSE_DAYS,
+    lookbackDays = config.windowDays * 2,
+  } = options;
+
+  validateNudgePolicy(options);
+
+  if (!Number.isInteger(lookbackDays) || lookbackDays < config.windowDays) {
+    throw new ScoringConfigError(
+      `lookbackDays must be an integer >= windowDays (got ${lookbackDays})`
+    );
+  }
+
+  // Gaps are measured over the whole lookback, so users lapsed for most
+  // of a window still have a gap history to compare against
+  const lookback = { ...config, windowDays: lookbackDays };
+
+  const users = new Map<string, LapseScanEntry>();
+  const unique = [...new Map(candidates.map(c => [c.userId, c])).values()];
+  const byTimezone = new Map<string, NudgeCandidate[]>();
+
+  // Pass 1: recency check
+  for (let i = 0; i < unique.length; i += concurrency) {
+    await Promise.all(
+      unique.slice(i, i + concurrency).map(async candidate => {
+        try {
+          const last = await repo.getLastSession(candidate.userId);
+
+          if (!last) {
+            users.set(candidate.userId, {
+              status: 'no-sessions',
+              decision: null,
+            });
+            return;
+          }
+
+          const timezone =
+            candidate.timezone ??
+            (await repo.getUserTimezone(candidate.userId)) ??
+            'UTC';
+
+          const daysSince = daysBetween(
+            toLocalDateString(last.timestamp, timezone),
+            toLocalDateString(referenceDate, timezone)
+          );
+          if (daysSince < minLapseDays) {
+            users.set(candidate.userId, { status: 'recent', decision: null });
+            return;
+          }
+
+          byTimezone.set(timezone, [
+            ...(byTimezone.get(timezone) ?? []),
+            candidate,
+          ]);
+        } catch (error) {
+          users.set(candidate.userId, failed(error));
+        }
+      })
+    );
+  }
+
+  // Pass 2: lookback fetch and decision
+  for (const [timezone, group] of byTimezone) {
+    const batch = await repo.batchFetchSessions(group.map(c => c.userId), {
+      days: lookbackDays,
+      referenceDate,
+      timezone,
+      config: lookback,
+      concurrency,
+      retry: options.retry,
+    });
+
+    for (const candidate of group) {
+      const result = batch.users.get(candidate.userId)!;
+      if (result.status === 'failed') {
+        users.set(candidate.userId, failed(result.error));
+        continue;
+      }
+
+      const score = calculateConsistencyScore({
+        sessions: result.sessions,
+        referenceDate,
+        timezone,
+        config: lookback,
+      });
+
+      users.set(candidate.userId, {
+        status: 'evaluated',
+        decision: decideNudge({
+          score,
+          referenceDate,
+          timezone,
+          recentNudges: candidate.recentNudges,
+          policy: options,
+          locale: candidate.locale,
+        }),
+      });
+    }
+  }
+
+  // Report in input order
+  return {
+    users: new Map(unique.map(c => [c.userId, users.get(c.userId)!])),
+  };
+}
+
+/**
+ * First instant the rate limits allow another nudge (at least "now")
+ */
+function earliestAllowed(
+  referenceDate: Date,
+  recentNudges: Date[],
+  policy: NudgePolicy
+): Date {
+  const {
+    maxNudgesPerWeek = DEFAULT_MAX_NUDGES_PER_WEEK,
+    minHoursBetweenNudges = DEFAULT_MIN_HOURS_BETWEEN_NUDGES,
+  } = policy;
+
+  const now = referenceDate.getTime();
+  const sent = recentNudges
+    .map(d => d.getTime())
+    .filter(t => t > now - MS_PER_WEEK)
+    .sort((a, b) => a - b);
+
+  let earliest = now;
+
+  if (sent.length) {
+    earliest = Math.max(
+      earliest,
+      sent[sent.length - 1] + minHoursBetweenNudges * MS_PER_HOUR
+    );
+  }
+
+  // A new nudge must wait until enough of the last week's have aged out
+  if (sent.length >= maxNudgesPerWeek) {
+    earliest = Math.max(
+      earliest,
+      sent[sent.length - maxNudgesPerWeek] + MS_PER_WEEK
+    );
+  }
+
+  return new Date(earliest);
+}
+
+/**
+ * First instant on `day` outside quiet hours and not before `earliest`
+ * (null if the day has no such instant)
+ */
+function firstOpenSlot(
+  day: string,
+  earliest: Date,
+  quietHours: QuietHours,
+  timezone: string
+): Date | null {
+  const { start, end } = quietHours;
+
+  // Local hours nudges may go out in: one range when quiet hours wrap
+  // midnight, the ranges before and after them otherwise
+  const open: [number, number][] =
+    start > end
+      ? [[end, start]]
+      : [
+          [0, start],
+          [end, 24],
+        ];
+
+  for (const [from, to] of open) {
+    const opens = atLocalHour(day, from, timezone);
+    const closes = atLocalHour(day, to, timezone);
+    const sendAt = new Date(Math.max(earliest.getTime(), opens.getTime()));
+    if (sendAt < closes) return sendAt;
+  }
+
+  return null;
+}
+
+function failed(error: unknown): LapseScanEntry {
+  return {
+    status: 'failed',
+    decision: null,
+    error: error instanceof Error ? error : new Error(String(error)),
+  };
+}
+
+/**
+ * Reject thresholds, quiet hours and limits that can't be applied
+ */
+function validateNudgePolicy(policy: NudgePolicy): void {
+  const {
+    minGaps = DEFAULT_MIN_GAPS,
+    stdDevs = DEFAULT_STD_DEVS,
+    minLapseDays = DEFAULT_MIN_LAPSE_DAYS,
+    quietHours = DEFAULT_QUIET_HOURS,
+    maxNudgesPerWeek = DEFAULT_MAX_NUDGES_PER_WEEK,
+    minHoursBetweenNudges = DEFAULT_MIN_HOURS_BETWEEN_NUDGES,
+    horizonDays = DEFAULT_HORIZON_DAYS,
+  } = policy;
+
+  const counts = { minGaps, minLapseDays, maxNudgesPerWeek, horizonDays };
+  for (const [name, value] of Object.entries(counts)) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new ScoringConfigError(
+        `${name} must be a positive integer (got ${value})`
+      );
+    }
+  }
+
+  if (!Number.isFinite(stdDevs) || stdDevs < 0) {
+    throw new ScoringConfigError(`stdDevs must be >= 0 (got ${stdDevs})`);
+  }
+
+  if (!Number.isFinite(minHoursBetweenNudges) || minHoursBetweenNudges < 0) {
+    throw new ScoringConfigError(
+      `minHoursBetweenNudges must be >= 0 (got ${minHoursBetweenNudges})`
+    );
+  }
+
+  const { start, end } = quietHours;
+  if (
+    ![start, end].every(h => Number.isInteger(h) && h >= 0 && h <= 24) ||
+    start === end
+  ) {
+    throw new ScoringConfigError(
+      `quietHours must be two different hours from 0 to 24 (got ${start} → ${end})`
+    );
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Recurring-pattern recognition over active days
+ *
+ * Finds weekday rhythms ("every Saturday", "every Mon/Wed/Fri") so that
+ * predictable schedules are not mistaken for inconsistency.
+ */
+
+import { ActiveDay, WeeklyRhythm } from './types';
+import { addDays, dayOfWeek } from './dates';
+
+// A weekday belongs to the rhythm when it was active this often
+const MIN_WEEKDAY_HIT_RATE = 0.75;
+// …and it occurred at least this many times in the window
+const MIN_WEEKDAY_OCCURRENCES = 2;
+// Rhythms below this confidence are not reported
+const MIN_CONFIDENCE = 0.5;
+
+const SHORT_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const LONG_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+/**
+ * Detect a weekday rhythm in the window ending on referenceDay
+ *
+ * confidence = adherence × coverage
+ * - adherence: share of rhythm weekdays that were actually active
+ * - coverage: share of all active days that fall on rhythm weekdays
+ *
+ * Today only counts against the rhythm once it has been trained.
+ */
+export function detectWeeklyRhythm(
+  activeDays: ActiveDay[],
+  referenceDay: string,
+  windowDays: number
+): WeeklyRhythm | null {
+  const windowStart = addDays(referenceDay, -(windowDays - 1));
+  const activeDaySet = new Set(
+    activeDays
+      .map(d => d.date)
+      .filter(d => d >= windowStart && d <= referenceDay)
+  );
+
+  if (activeDaySet.size === 0) return null;
+
+  const occurrences = new Array(7).fill(0);
+  const hits = new Array(7).fill(0);
+
+  for (let d = windowStart; d <= referenceDay; d = addDays(d, 1)) {
+    const weekday = dayOfWeek(d);
+    const active = activeDaySet.has(d);
+
+    if (d === referenceDay && !active) continue;
+
+    occurrences[weekday]++;
+    if (active) hits[weekday]++;
+  }
+
+  const weekdays = [0, 1, 2, 3, 4, 5, 6].filter(
+    w =>
+      occurrences[w] >= MIN_WEEKDAY_OCCURRENCES &&
+      hits[w] / occurrences[w] >= MIN_WEEKDAY_HIT_RATE
+  );
+
+  if (weekdays.length === 0) return null;
+
+  const rhythmHits = weekdays.reduce((sum, w) => sum + hits[w], 0);
+  const rhythmOccurrences = weekdays.reduce(
+    (sum, w) => sum + occurrences[w],
+    0
+  );
+
+  const adherence = rhythmHits / rhythmOccurrences;
+  const coverage = rhythmHits / activeDaySet.size;
+  const confidence = adherence * coverage;
+
+  if (confidence < MIN_CONFIDENCE) return null;
+
+  return {
+    weekdays,
+    label: describeWeekdays(weekdays),
+    confidence,
+  };
+}
+
+/**
+ * "every Saturday", "every weekend", "every Mon/Wed/Fri", …
+ */
+function describeWeekdays(weekdays: number[]): string {
+  const key = weekdays.join(',');
+
+  if (weekdays.length === 7) return 'every day';
+  if (key === '0,6') return 'every weekend';
+  if (key === '1,2,3,4,5') return 'every weekday';
+  if (weekdays.length === 1) return `every ${LONG_NAMES[weekdays[0]]}`;
+
+  // Monday-first reads more naturally ("Sat/Sun", not "Sun/Sat")
+  const mondayFirst = [...weekdays].sort(
+    (a, b) => ((a + 6) % 7) - ((b + 6) % 7)
+  );
+  return `every ${mondayFirst.map(w => SHORT_NAMES[w]).join('/')}`;
+}
@@ -7,55 +7,200 @@
  * - Explicit limits to control cost
  */
 
-import { Firestore, Timestamp } from 'firebase-admin/firestore';
-import { Session } from './types';
+import {
+  DocumentSnapshot,
+  Firestore,
+  Query,
+  Timestamp,
+} from 'firebase-admin/firestore';
+import {
+  BatchFetchOptions,
+  BatchFetchResult,
+  Instrumentation,
+  ScoringConfig,
+  Session,
+  SessionFetchResult,
+  SessionQueryOptions,
+  SessionWindowQueryOptions,
+} from './types';
+import { DEFAULT_SCORING_CONFIG } from './config';
+import {
+  DEFAULT_SESSION_LIMIT,
+  SessionRepository,
+  fetchUserBatch,
+  readPages,
+  sessionWindowStart,
+} from './repository';
+import { validateActivityTypes } from './activities';
+import {
+  METRIC_BATCH_ERRORS,
+  METRIC_BATCH_RETRIES,
+  NOOP_INSTRUMENTATION,
+  measureOperation,
+} from './instrumentation';
 
-const DEFAULT_WINDOW_DAYS = 28;
-const DEFAULT_LIMIT = 200;
+const DEFAULT_LIMIT = DEFAULT_SESSION_LIMIT;
+const STREAM_PAGE_SIZE = 100;
+
+// Numeric gRPC status codes and their Firestore client names
+const TRANSIENT_ERROR_CODES = new Set<number | string>([
+  4,
+  8,
+  10,
+  13,
+  14,
+  'deadline-exceeded',
+  'resource-exhausted',
+  'aborted',
+  'internal',
+  'unavailable',
+]);
 
 /**
  * Fetch sessions for a user within the last N days
  *
+ * Single query capped at `limit`: heavy users can lose their oldest
+ * sessions without notice. Use fetchSessionWindow when completeness
+ * matters.
+ *
  * @param db - Firestore instance
  * @param userId - User ID
- * @param days - Lookback window (default: 28)
+ * @param days - Lookback window (default: config.windowDays, i.e. 28)
  * @param options - Optional query tuning
  */
 export async function fetchUserSessions(
   db: Firestore,
   userId: string,
-  days: number = DEFAULT_WINDOW_DAYS,
+  days?: number,
   options?: {
     limit?: number;
     referenceDate?: Date;
+    timezone?: string;
+    activityTypes?: string[];
+    config?: ScoringConfig;
+    instrumentation?: Instrumentation;
   }
 ): Promise<Session[]> {
   const limit = options?.limit ?? DEFAULT_LIMIT;
-  const referenceDate = options?.referenceDate ?? new Date();
 
-  const startDate = new Date(referenceDate);
-  startDate.setDate(startDate.getDate() - days);
-  startDate.setHours(0, 0, 0, 0);
+  return measureOperation(
+    options?.instrumentation ?? NOOP_INSTRUMENTATION,
+    'fetchUserSessions',
+    async () => {
+      const snapshot = await sessionWindowQuery(db, userId, {
+        ...options,
+        days,
+      })
+        .limit(limit)
+        .get();
 
-  const snapshot = await db
-    .collection('users')
-    .doc(userId)
-    .collection('sessions')
-    .where('timestamp', '>=', Timestamp.fromDate(startDate))
-    .where('timestamp', '<=', Timestamp.fromDate(referenceDate))
-    .orderBy('timestamp', 'desc')
-    .limit(limit)
-    .get();
-
-  return snapshot.docs.map(doc => {
-    const data = doc.data();
-
-    return {
-      id: doc.id,
-      timestamp: data.timestamp.toDate(),
-      durationSec: Number(data.durationSec) || 0,
-      type: data.type,
-    };
+      return snapshot.docs.map(toSession);
+    },
+    sessions => Math.max(sessions.length, 1)
+  );
+}
+
+/**
+ * Fetch the whole window with cursor pagination under a read budget
+ *
+ * Reports whether the window was fully covered so callers can flag
+ * partial data instead of silently under-scoring.
+ *
+ * @param db - Firestore instance
+ * @param userId - User ID
+ * @param options - Window selection, page size and read budget
+ */
+export async function fetchSessionWindow(
+  db: Firestore,
+  userId: string,
+  options?: SessionWindowQueryOptions
+): Promise<SessionFetchResult> {
+  const query = sessionWindowQuery(db, userId, options);
+
+  return measureOperation(
+    options?.instrumentation ?? NOOP_INSTRUMENTATION,
+    'fetchSessionWindow',
+    async () => {
+      const { items, complete, reads } = await readPages<DocumentSnapshot>(
+        async (limit, after) => {
+          const page = after ? query.startAfter(after) : query;
+          return (await page.limit(limit).get()).docs;
+        },
+        options
+      );
+
+      return { sessions: items.map(toSession), complete, reads };
+    },
+    result => result.reads
+  );
+}
+
+/**
+ * Stream every session in the window, newest first, one page at a time
+ *
+ * Unlike fetchUserSessions there is no overall cap; reads grow with the
+ * number of sessions, so prefer it for offline jobs.
+ *
+ * @param db - Firestore instance
+ * @param userId - User ID
+ * @param options - Window selection
+ */
+export async function* streamUserSessions(
+  db: Firestore,
+  userId: string,
+  options?: Omit<SessionQueryOptions, 'limit'>
+): AsyncGenerator<Session> {
+  const instrumentation = options?.instrumentation ?? NOOP_INSTRUMENTATION;
+  let cursor: DocumentSnapshot | undefined;
+
+  for (;;) {
+    let query = sessionWindowQuery(db, userId, options).limit(
+      STREAM_PAGE_SIZE
+    );
+    if (cursor) query = query.startAfter(cursor);
+
+    // Each page is recorded as its own operation
+    const snapshot = await measureOperation(
+      instrumentation,
+      'streamUserSessions',
+      () => query.get(),
+      page => Math.max(page.size, 1)
+    );
+    for (const doc of snapshot.docs) {
+      yield toSession(doc);
+    }
+
+    if (snapshot.size < STREAM_PAGE_SIZE) return;
+    cursor = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
+
+/**
+ * Fetch two consecutive windows (e.g. 56 days) in one bounded query
+ *
+ * Feeds calculateScoreTrend, which splits the result into the current
+ * and previous windows.
+ *
+ * @param db - Firestore instance
+ * @param userId - User ID
+ * @param options - Optional query tuning (limit defaults to 2 × 200)
+ */
+export async function fetchUserSessionsForTrend(
+  db: Firestore,
+  userId: string,
+  options?: {
+    limit?: number;
+    referenceDate?: Date;
+    timezone?: string;
+    config?: ScoringConfig;
+    instrumentation?: Instrumentation;
+  }
+): Promise<Session[]> {
+  const windowDays = (options?.config ?? DEFAULT_SCORING_CONFIG).windowDays;
+
+  return fetchUserSessions(db, userId, windowDays * 2, {
+    ...options,
+    limit: options?.limit ?? DEFAULT_LIMIT * 2,
   });
 }
 
@@ -67,28 +212,59 @@ export async function fetchUserSessions(
  * - Offline aggregation
  * - Admin dashboards
  *
+ * Fetches `concurrency` users at a time, retries transient errors with
+ * backoff and stops starting queries once `maxReads` would be exceeded.
+ * Every user gets a status: a failed fetch is never reported as an empty
+ * (inactive) window.
+ *
  * @param db - Firestore instance
  * @param userIds - User IDs
- * @param days - Lookback window
+ * @param options - Window selection, per-user limit, concurrency, read
+ *   budget and retry policy
  */
 export async function batchFetchUserSessions(
   db: Firestore,
   userIds: string[],
-  days: number = DEFAULT_WINDOW_DAYS
-): Promise<Map<string, Session[]>> {
-  const results = await Promise.all(
-    userIds.map(async userId => {
-      try {
-        const sessions = await fetchUserSessions(db, userId, days);
-        return [userId, sessions] as const;
-      } catch {
-        // Fail-soft: return empty data for this user
-        return [userId, []] as const;
-      }
-    })
+  options?: BatchFetchOptions
+): Promise<BatchFetchResult> {
+  const instrumentation = options?.instrumentation ?? NOOP_INSTRUMENTATION;
+
+  const result = await fetchUserBatch(
+    userIds,
+    (userId, limit) =>
+      fetchUserSessions(db, userId, options?.days, { ...options, limit }),
+    options,
+    isTransientFirestoreError
   );
 
-  return new Map(results);
+  for (const [userId, user] of result.users) {
+    if (user.attempts > 1) {
+      instrumentation.metrics.increment(METRIC_BATCH_RETRIES, user.attempts - 1);
+    }
+
+    if (user.status === 'failed') {
+      instrumentation.metrics.increment(METRIC_BATCH_ERRORS);
+      instrumentation.logger.warn('firestore.batch_user_failed', {
+        userId,
+        attempts: user.attempts,
+        error: user.error?.message,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * True for gRPC / Firestore errors that may succeed on retry
+ * (deadline exceeded, resource exhausted, aborted, internal, unavailable)
+ */
+export function isTransientFirestoreError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return (
+    (typeof code === 'number' || typeof code === 'string') &&
+    TRANSIENT_ERROR_CODES.has(code)
+  );
 }
 
 /**
@@ -100,28 +276,133 @@ export async function batchFetchUserSessions(
  */
 export async function getLastSession(
   db: Firestore,
-  userId: string
+  userId: string,
+  options?: { instrumentation?: Instrumentation }
 ): Promise<Session | null> {
-  const snapshot = await db
-    .collection('users')
-    .doc(userId)
-    .collection('sessions')
-    .orderBy('timestamp', 'desc')
-    .limit(1)
-    .get();
+  const snapshot = await measureOperation(
+    options?.instrumentation ?? NOOP_INSTRUMENTATION,
+    'getLastSession',
+    () =>
+      db
+        .collection('users')
+        .doc(userId)
+        .collection('sessions')
+        .orderBy('timestamp', 'desc')
+        .limit(1)
+        .get(),
+    () => 1
+  );
 
   if (snapshot.empty) {
     return null;
   }
 
-  const doc = snapshot.docs[0];
-  const data = doc.data();
+  return toSession(snapshot.docs[0]);
+}
+
+/**
+ * Read the IANA timezone stored on the user profile (users/{userId})
+ *
+ * @param db - Firestore instance
+ * @param userId - User ID
+ * @param options - Instrumentation for the profile read
+ */
+export async function getUserTimezone(
+  db: Firestore,
+  userId: string,
+  options?: { instrumentation?: Instrumentation }
+): Promise<string | null> {
+  const snapshot = await measureOperation(
+    options?.instrumentation ?? NOOP_INSTRUMENTATION,
+    'getUserTimezone',
+    () => db.collection('users').doc(userId).get(),
+    () => 1
+  );
+  const timezone = snapshot.get('timezone');
+
+  return typeof timezone === 'string' && timezone ? timezone : null;
+}
+
+/**
+ * SessionRepository backed by the query helpers above
+ *
+ * @param db - Firestore instance
+ * @param instrumentation - Used unless a call passes its own
+ */
+export function createFirestoreSessionRepository(
+  db: Firestore,
+  instrumentation: Instrumentation = NOOP_INSTRUMENTATION
+): SessionRepository {
+  return {
+    fetchSessionWindow: (userId, options) =>
+      fetchSessionWindow(db, userId, { instrumentation, ...options }),
+    fetchSessions: (userId, options) =>
+      fetchUserSessions(db, userId, options?.days, {
+        instrumentation,
+        ...options,
+      }),
+    getLastSession: userId => getLastSession(db, userId, { instrumentation }),
+    batchFetchSessions: (userIds, options) =>
+      batchFetchUserSessions(db, userIds, { instrumentation, ...options }),
+    streamSessions: (userId, options) =>
+      streamUserSessions(db, userId, { instrumentation, ...options }),
+    getUserTimezone: userId =>
+      getUserTimezone(db, userId, { instrumentation }),
+  };
+}
+
+/**
+ * Range query for a user's sessions window, newest first
+ */
+function sessionWindowQuery(
+  db: Firestore,
+  userId: string,
+  options?: Omit<SessionQueryOptions, 'limit'>
+): Query {
+  const referenceDate = options?.referenceDate ?? new Date();
+  const windowDays =
+    options?.days ?? (options?.config ?? DEFAULT_SCORING_CONFIG).windowDays;
+
+  const startDate = sessionWindowStart(
+    referenceDate,
+    windowDays,
+    options?.timezone
+  );
+
+  validateActivityTypes(options?.activityTypes);
+
+  let query: Query = db.collection('users').doc(userId).collection('sessions');
+
+  // Equality on type + range on timestamp needs the (type, timestamp) index
+  if (options?.activityTypes) {
+    query = query.where('type', 'in', options.activityTypes);
+  }
+
+  return query
+    .where('timestamp', '>=', Timestamp.fromDate(startDate))
+    .where('timestamp', '<=', Timestamp.fromDate(referenceDate))
+    .orderBy('timestamp', 'desc');
+}
+
+/**
+ * Map a session document to a Session
+ *
+ * Optional fields stay unset when the document lacks them, like sessions
+ * in the in-memory adapter: a missing duration still counts as activity
+ * (see countsAsActivity) instead of becoming a 0-second session.
+ */
+function toSession(doc: DocumentSnapshot): Session {
+  const data = doc.data()!;
 
   return {
     id: doc.id,
     timestamp: data.timestamp.toDate(),
-    durationSec: Number(data.durationSec) || 0,
     type: data.type,
+    ...(data.durationSec !== undefined &&
+      data.durationSec !== null && { durationSec: Number(data.durationSec) }),
+    ...(typeof data.timezone === 'string' &&
+      data.timezone && { timezone: data.timezone }),
+    ...(typeof data.intensity === 'number' && { intensity: data.intensity }),
   };
 }
 
@@ -133,6 +414,10 @@ export async function getLastSession(
  * Composite index:
  *   - timestamp (Descending)
  *
+ * Composite index (activityTypes filter):
+ *   - type (Ascending)
+ *   - timestamp (Descending)
+ *
  * Reason:
  * - We filter by a timestamp range (>=, <=)
  * - We order by timestamp DESC
@@ -141,13 +426,16 @@ export async function getLastSession(
  * Cost considerations:
  * - Reads scale linearly with number of sessions in window
  * - With limit=200 → max 200 reads per score calculation
+ * - fetchSessionWindow pages past 200 up to maxReads (default 1000)
+ *   and reports `complete: false` if the budget runs out
  * - Subcollections partition data by user automatically
  *
  * Latency:
  * - Single user query: ~100–300ms typical
- * - Batch (50–100 users): ~1–2s with Promise.all
+ * - Batch (50–100 users): ~1–2s at the default concurrency of 10
  *
  * Optimization notes:
- * - Scores should be cached and recomputed only on new session writes
+ * - Scores are cached in users/{userId}/consistency/current and updated
+ *   incrementally on session writes (see cache.ts)
  * - This query is designed to be predictable and bounded
  */
\ No newline at end of file
@@ -0,0 +1,334 @@
+/**
+ * Storage-agnostic access to session data
+ *
+ * Scoring code depends on SessionRepository, not on Firestore, so it can
+ * be unit-tested and run by local tools with the in-memory adapter.
+ * The Firestore adapter lives in queries.ts.
+ */
+
+import {
+  BatchFetchOptions,
+  BatchFetchResult,
+  BatchUserResult,
+  Session,
+  SessionFetchResult,
+  SessionQueryOptions,
+  SessionWindowQueryOptions,
+} from './types';
+import { DEFAULT_SCORING_CONFIG } from './config';
+import { addDays, startOfLocalDay, toLocalDateString } from './dates';
+import { filterSessionsByType, validateActivityTypes } from './activities';
+import { ReadBudgetExceededError, ScoringConfigError } from './errors';
+
+export const DEFAULT_SESSION_LIMIT = 200;
+export const DEFAULT_MAX_READS = 1000;
+export const DEFAULT_BATCH_CONCURRENCY = 10;
+export const DEFAULT_RETRY_ATTEMPTS = 3;
+export const DEFAULT_RETRY_DELAY_MS = 200;
+
+/**
+ * Read-only session storage
+ */
+export interface SessionRepository {
+  /** Whole window via pagination, reporting coverage and reads spent */
+  fetchSessionWindow(
+    userId: string,
+    options?: SessionWindowQueryOptions
+  ): Promise<SessionFetchResult>;
+
+  /** Sessions in the lookback window, newest first, capped at `limit` */
+  fetchSessions(
+    userId: string,
+    options?: SessionQueryOptions
+  ): Promise<Session[]>;
+
+  /** Most recent session, or null if the user has none */
+  getLastSession(userId: string): Promise<Session | null>;
+
+  /** fetchSessions for many users, with a status per user (see fetchUserBatch) */
+  batchFetchSessions(
+    userIds: string[],
+    options?: BatchFetchOptions
+  ): Promise<BatchFetchResult>;
+
+  /** Every session in the lookback window, newest first, without a cap */
+  streamSessions(
+    userId: string,
+    options?: Omit<SessionQueryOptions, 'limit'>
+  ): AsyncIterable<Session>;
+
+  /** IANA timezone stored on the user profile, or null if unset */
+  getUserTimezone(userId: string): Promise<string | null>;
+}
+
+/**
+ * In-memory adapter with helpers for seeding data
+ */
+export interface InMemorySessionRepository extends SessionRepository {
+  addSession(userId: string, session: Session): void;
+  setUserTimezone(userId: string, timezone: string): void;
+}
+
+/**
+ * Inclusive start of the lookback window
+ * (local midnight in `timezone` of the first of `days` local days ending
+ * on the reference day, the same days selectWindow scores)
+ *
+ * Independent of the server's own timezone.
+ */
+export function sessionWindowStart(
+  referenceDate: Date,
+  days: number,
+  timezone: string = 'UTC'
+): Date {
+  const referenceDay = toLocalDateString(referenceDate, timezone);
+  return startOfLocalDay(addDays(referenceDay, -(days - 1)), timezone);
+}
+
+/**
+ * Read pages until one comes back short or the read budget runs out
+ *
+ * Each query is billed at least one read, even when empty. When the
+ * budget is spent on full pages the result is reported as incomplete.
+ *
+ * @param fetchPage - Reads up to `limit` items after the `after` cursor
+ * @param options - Page size and read budget
+ */
+export async function readPages<T>(
+  fetchPage: (limit: number, after?: T) => Promise<T[]>,
+  options?: { pageSize?: number; maxReads?: number }
+): Promise<{ items: T[]; complete: boolean; reads: number }> {
+  const pageSize = options?.pageSize ?? DEFAULT_SESSION_LIMIT;
+  const maxReads = options?.maxReads ?? DEFAULT_MAX_READS;
+
+  const items: T[] = [];
+  let reads = 0;
+
+  while (reads < maxReads) {
+    const limit = Math.min(pageSize, maxReads - reads);
+    const page = await fetchPage(limit, items[items.length - 1]);
+
+    reads += Math.max(page.length, 1);
+    items.push(...page);
+
+    if (page.length < limit) {
+      return { items, complete: true, reads };
+    }
+  }
+
+  return { items, complete: false, reads };
+}
+
+/**
+ * Fetch many users with bounded concurrency, retries and a read budget
+ *
+ * `fetchUser` is asked for one session more than `limit`, so truncation
+ * is detected rather than guessed. Every attempt reserves its worst-case
+ * reads before it starts, so concurrent fetches never overspend the
+ * budget; a user that no longer fits fails with ReadBudgetExceededError
+ * without a query. Failed attempts are assumed to bill no reads.
+ *
+ * @param userIds - Users to fetch (duplicates are fetched once)
+ * @param fetchUser - Reads up to `limit` sessions of one user, newest first
+ * @param options - Limit, concurrency, read budget and retry policy
+ * @param isTransient - Errors worth retrying (default: none)
+ * @throws ScoringConfigError if concurrency or retry options are invalid
+ */
+export async function fetchUserBatch(
+  userIds: string[],
+  fetchUser: (userId: string, limit: number) => Promise<Session[]>,
+  options: BatchFetchOptions = {},
+  isTransient: (error: unknown) => boolean = () => false
+): Promise<BatchFetchResult> {
+  const {
+    limit = DEFAULT_SESSION_LIMIT,
+    concurrency = DEFAULT_BATCH_CONCURRENCY,
+    maxReads = Infinity,
+    retry = {},
+  } = options;
+  const {
+    maxAttempts = DEFAULT_RETRY_ATTEMPTS,
+    baseDelayMs = DEFAULT_RETRY_DELAY_MS,
+  } = retry;
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new ScoringConfigError(
+      `concurrency must be a positive integer (got ${concurrency})`
+    );
+  }
+
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new ScoringConfigError(
+      `retry.maxAttempts must be a positive integer (got ${maxAttempts})`
+    );
+  }
+
+  const ids = [...new Set(userIds)];
+  const results: BatchUserResult[] = new Array(ids.length);
+  const worstCase = limit + 1;
+  let reserved = 0; // Reads spent plus reads held by attempts in flight
+  let spent = 0;
+
+  const fetchOne = async (userId: string): Promise<BatchUserResult> => {
+    let attempts = 0;
+
+    for (;;) {
+      if (reserved + worstCase > maxReads) {
+        return {
+          status: 'failed',
+          sessions: [],
+          reads: 0,
+          attempts,
+          error: new ReadBudgetExceededError(maxReads),
+        };
+      }
+
+      reserved += worstCase;
+      attempts++;
+
+      try {
+        const fetched = await fetchUser(userId, worstCase);
+        const reads = Math.max(fetched.length, 1);
+        reserved -= worstCase - reads;
+        spent += reads;
+
+        return {
+          status: fetched.length > limit ? 'truncated' : 'ok',
+          sessions: fetched.slice(0, limit),
+          reads,
+          attempts,
+        };
+      } catch (error) {
+        reserved -= worstCase;
+
+        if (attempts >= maxAttempts || !isTransient(error)) {
+          return {
+            status: 'failed',
+            sessions: [],
+            reads: 0,
+            attempts,
+            error: error instanceof Error ? error : new Error(String(error)),
+          };
+        }
+
+        await sleep(backoffDelay(baseDelayMs, attempts));
+      }
+    }
+  };
+
+  // Workers pull the next user until none are left
+  let next = 0;
+  const worker = async () => {
+    while (next < ids.length) {
+      const index = next++;
+      results[index] = await fetchOne(ids[index]);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, ids.length) }, worker)
+  );
+
+  return {
+    users: new Map(ids.map((userId, i) => [userId, results[i]])),
+    reads: spent,
+  };
+}
+
+/**
+ * Exponential backoff with jitter: 50–100% of baseDelayMs × 2^(attempt-1)
+ */
+function backoffDelay(baseDelayMs: number, attempt: number): number {
+  return baseDelayMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Create an in-memory repository, optionally seeded per user
+ */
+export function createInMemorySessionRepository(seed?: {
+  sessions?: Record<string, Session[]>;
+  timezones?: Record<string, string>;
+}): InMemorySessionRepository {
+  const sessionsByUser = new Map<string, Session[]>(
+    Object.entries(seed?.sessions ?? {}).map(([userId, sessions]) => [
+      userId,
+      [...sessions],
+    ])
+  );
+  const timezones = new Map(Object.entries(seed?.timezones ?? {}));
+
+  // Same filter and ordering as the Firestore range query
+  const inWindow = (userId: string, options?: SessionQueryOptions) => {
+    const referenceDate = options?.referenceDate ?? new Date();
+    const days =
+      options?.days ?? (options?.config ?? DEFAULT_SCORING_CONFIG).windowDays;
+    const startDate = sessionWindowStart(referenceDate, days, options?.timezone);
+
+    validateActivityTypes(options?.activityTypes);
+    return filterSessionsByType(
+      sessionsByUser.get(userId) ?? [],
+      options?.activityTypes
+    )
+      .filter(s => s.timestamp >= startDate && s.timestamp <= referenceDate)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  };
+
+  const repo: InMemorySessionRepository = {
+    async fetchSessionWindow(userId, options) {
+      const sessions = inWindow(userId, options);
+
+      const { items, complete, reads } = await readPages<Session>(
+        async (limit, after) => {
+          const start = after ? sessions.indexOf(after) + 1 : 0;
+          return sessions.slice(start, start + limit);
+        },
+        options
+      );
+
+      return { sessions: items, complete, reads };
+    },
+
+    async fetchSessions(userId, options) {
+      const limit = options?.limit ?? DEFAULT_SESSION_LIMIT;
+      return inWindow(userId, options).slice(0, limit);
+    },
+
+    async getLastSession(userId) {
+      const sessions = [...(sessionsByUser.get(userId) ?? [])].sort(
+        (a, b) => b.timestamp.getTime() - a.timestamp.getTime()
+      );
+      return sessions[0] ?? null;
+    },
+
+    batchFetchSessions: (userIds, options) =>
+      fetchUserBatch(
+        userIds,
+        (userId, limit) => repo.fetchSessions(userId, { ...options, limit }),
+        options
+      ),
+
+    async *streamSessions(userId, options) {
+      yield* inWindow(userId, options);
+    },
+
+    async getUserTimezone(userId) {
+      return timezones.get(userId) ?? null;
+    },
+
+    addSession(userId, session) {
+      const sessions = sessionsByUser.get(userId) ?? [];
+      sessions.push(session);
+      sessionsByUser.set(userId, sessions);
+    },
+
+    setUserTimezone(userId, timezone) {
+      timezones.set(userId, timezone);
+    },
+  };
+
+  return repo;
+}
@@ -1,5 +1,6 @@
 /**
- * Pure scoring function for 28-day consistency score
+ * Pure scoring function for the consistency score
+ * (28-day window by default, configurable via ScoringConfig)
  *
  * Design goals:
  * - Explainable (no opaque math)
@@ -15,66 +16,421 @@ import {
   ConsistencyMetadata,
   ScoreBreakdown,
   Session,
+  GoalProgress,
+  ScoringConfig,
+  ScoringOptions,
+  ScoreComponents,
+  DistributionModel,
+  GapStatistics,
+  ActivityTypeMix,
+  ExplanationKey,
+  ExplanationMessage,
+  ExplanationTone,
+  StreakRules,
+  RecencyBucket,
+  ScoreTrace,
+  SessionTraceEntry,
+  EffortScore,
+  QuarantinedSession,
 } from './types';
-
-const WINDOW_DAYS = 28;
+import { addDays, daysBetween, toLocalDateString } from './dates';
+import { evaluateGoal } from './goals';
+import {
+  DEFAULT_SCORING_CONFIG,
+  SCORING_VERSION,
+  validateScoringConfig,
+} from './config';
+import { detectWeeklyRhythm } from './patterns';
+import {
+  blendScores,
+  calculateEffortScore,
+  countsAsActivity,
+  validateEffortOptions,
+} from './effort';
+import {
+  activityTypeMixMessages,
+  describeActivityTypeMix,
+  filterSessionsByType,
+  groupSessionsByType,
+} from './activities';
+import { renderExplanations } from './explanations';
+import {
+  isValidTimestamp,
+  isValidTimezone,
+  validateSessions,
+} from './validation';
+import {
+  METRIC_SCORE_DURATION,
+  METRIC_SCORE_VALUE,
+  NOOP_INSTRUMENTATION,
+} from './instrumentation';
+import {
+  DEFAULT_STREAK_RULES,
+  analyzeStreaks,
+  traceStreaks,
+  validateStreakRules,
+} from './streaks';
 
 /**
  * Calculate consistency score from session data
+ *
+ * Reports duration, score and the README's log fields through
+ * `input.instrumentation` when supplied.
  */
 export function calculateConsistencyScore(input: ScoreInput): ConsistencyScore {
-  const { sessions, referenceDate = new Date(), timezone = 'UTC' } = input;
+  const { logger, metrics } = input.instrumentation ?? NOOP_INSTRUMENTATION;
+  const start = performance.now();
+
+  const result = calculateScore(input);
+
+  const durationMs = performance.now() - start;
+  metrics.timing(METRIC_SCORE_DURATION, durationMs);
+  metrics.histogram(METRIC_SCORE_VALUE, result.score);
+  logger.info('score.calculated', {
+    score: result.score,
+    activeDays: result.metadata.activeDays,
+    totalSessions: result.metadata.totalSessions,
+    breakdown: result.breakdown,
+    durationMs,
+  });
 
-  // Deduplicate sessions into active calendar days
-  const activeDays = groupSessionsByDay(sessions, timezone);
+  return result;
+}
 
-  // Derive metadata (gaps, streaks, recency)
-  const metadata = calculateMetadata(activeDays, referenceDate, timezone);
+/**
+ * calculateConsistencyScore without instrumentation
+ */
+function calculateScore(input: ScoreInput): ConsistencyScore {
+  const {
+    referenceDate = new Date(),
+    timezone = 'UTC',
+    config = DEFAULT_SCORING_CONFIG,
+    minSessionDurationSec,
+  } = input;
+
+  validateScoringConfig(config);
+  validateEffortOptions(input);
+
+  // All window arithmetic is done on the user's local calendar day
+  const referenceDay = toLocalDateString(referenceDate, timezone);
+
+  // Single-discipline scores only see that discipline's sessions
+  const typed = filterSessionsByType(input.sessions, input.activityTypes);
+
+  // Quarantine bad records before they reach bucketing
+  const { sessions, quarantined, report } = validateSessions(
+    typed,
+    referenceDay,
+    timezone,
+    input.validation
+  );
 
-  // Base score components
-  const breakdown = calculateScoreBreakdown(activeDays, metadata);
+  // Deduplicate sessions into active calendar days, then keep only the
+  // window (fetches and callers may hand over older sessions)
+  const activeDays = selectWindow(
+    groupSessionsByDay(sessions, timezone, minSessionDurationSec),
+    referenceDay,
+    config.windowDays
+  );
+
+  const result = scoreActiveDays(activeDays, referenceDay, input);
+
+  if (input.validation) result.dataQuality = report;
+
+  if (input.groupByActivityType) {
+    result.typeMix = calculateActivityTypeMix(sessions, referenceDay, input);
+  }
+
+  // Effort needs per-session durations and intensities, not just days
+  const effort = input.effort
+    ? calculateEffortScore(sessions, referenceDay, input)
+    : undefined;
+
+  const final: ConsistencyScore = effort
+    ? {
+        ...result,
+        score:
+          effort.blendWeight > 0
+            ? blendScores(result.score, effort)
+            : result.score,
+        effort,
+      }
+    : result;
+
+  if (input.trace) {
+    final.trace = buildScoreTrace(input, referenceDate, {
+      typed,
+      quarantined,
+      consistency: result,
+      final,
+      effort,
+    });
+  }
+
+  return final;
+}
+
+/**
+ * Steps of calculateConsistencyScore a trace can't re-derive cheaply
+ */
+interface ScoreTraceSteps {
+  typed: Session[]; // After the activity type filter
+  quarantined: QuarantinedSession[];
+  consistency: ConsistencyScore; // Before any effort blend
+  final: ConsistencyScore; // As returned
+  effort?: EffortScore;
+}
 
-  // Streak bonus needs reference date context
-  breakdown.streakBonus = calculateStreakBonus(
+/**
+ * Record every intermediate step of calculateConsistencyScore
+ *
+ * Re-derives the per-session and per-day steps with the same helpers the
+ * score used, so the trace can't drift from the calculation.
+ */
+function buildScoreTrace(
+  input: ScoreInput,
+  referenceDate: Date,
+  steps: ScoreTraceSteps
+): ScoreTrace {
+  const { consistency, final, effort } = steps;
+  const {
+    sessions,
+    referenceDate: _referenceDate,
+    trace: _trace,
+    instrumentation: _instrumentation,
+    ...options
+  } = input;
+  const {
+    timezone = 'UTC',
+    config = DEFAULT_SCORING_CONFIG,
+    minSessionDurationSec,
+    streak = {},
+  } = options;
+
+  const referenceDay = toLocalDateString(referenceDate, timezone);
+  const windowStart = addDays(referenceDay, -(config.windowDays - 1));
+  const typed = new Set(steps.typed);
+  const issues = new Map(steps.quarantined.map(q => [q.session, q.issue]));
+  const accepted = steps.typed.filter(s => !issues.has(s));
+  const seenDays = new Set<string>();
+
+  const sessionEntries = sessions.map((session): SessionTraceEntry => {
+    const zone = session.timezone ?? timezone;
+    const issue = issues.get(session);
+    const localDate =
+      isValidTimestamp(session.timestamp) && isValidTimezone(zone)
+        ? toLocalDateString(session.timestamp, zone)
+        : null;
+
+    let status: SessionTraceEntry['status'];
+    if (!typed.has(session)) {
+      status = 'filtered-type';
+    } else if (issue) {
+      status = 'quarantined';
+    } else if (!countsAsActivity(session, minSessionDurationSec)) {
+      status = 'too-short';
+    } else if (seenDays.has(localDate!)) {
+      status = 'merged';
+    } else {
+      status = 'counted';
+      seenDays.add(localDate!);
+    }
+
+    return {
+      id: session.id,
+      timezone: zone,
+      localDate,
+      inWindow:
+        localDate !== null &&
+        localDate >= windowStart &&
+        localDate <= referenceDay,
+      status,
+      ...(issue && { issue }),
+    };
+  });
+
+  const activeDays = selectWindow(
+    groupSessionsByDay(accepted, timezone, minSessionDurationSec),
+    referenceDay,
+    config.windowDays
+  );
+
+  const { metadata, breakdown } = consistency;
+  const bucket = matchRecencyBucket(metadata, config);
+  const rawScore = sumBreakdown(breakdown);
+  const rounded = Math.round(rawScore);
+
+  return {
+    version: SCORING_VERSION,
+    input: {
+      sessions: sessions.map(s => ({
+        ...s,
+        timestamp: isValidTimestamp(s.timestamp)
+          ? s.timestamp.toISOString()
+          : String(s.timestamp),
+      })),
+      referenceDate: referenceDate.toISOString(),
+      // Resolved, so replays don't pick up defaults changed since
+      options: {
+        ...options,
+        config,
+        streak: { ...DEFAULT_STREAK_RULES, ...streak },
+      },
+    },
+    config,
+    referenceDay,
+    windowStart,
+    sessions: sessionEntries,
     activeDays,
-    referenceDate,
-    timezone
+    gaps: calculateGaps(activeDays),
+    streakWalk: traceStreaks(
+      activeDays,
+      referenceDay,
+      config.windowDays,
+      streak
+    ),
+    recency: {
+      daysSinceLastSession: metadata.daysSinceLastSession,
+      bucket: bucket ?? null,
+      points: breakdown.recencyBonus,
+    },
+    breakdown,
+    rawScore,
+    clampedScore: consistency.score,
+    clamped: consistency.score !== rounded,
+    effortBlend: effort
+      ? {
+          consistencyScore: consistency.score,
+          effortScore: effort.score,
+          blendWeight: effort.blendWeight,
+        }
+      : null,
+    score: final.score,
+  };
+}
+
+/**
+ * Score already-bucketed active days against a local reference day
+ *
+ * Lets callers that bucket once (trends, history, caches) reuse the
+ * exact same scoring rules without re-grouping sessions.
+ */
+export function scoreActiveDays(
+  activeDays: ActiveDay[],
+  referenceDay: string,
+  options: ScoringOptions = {}
+): ConsistencyScore {
+  const { config = DEFAULT_SCORING_CONFIG } = options;
+  const { score, metadata, breakdown, goal } = calculateScoreComponents(
+    activeDays,
+    referenceDay,
+    options
   );
 
   // Visualization + explanations
-  const chartData = generateChartData(activeDays, referenceDate, timezone);
-  const explanations = generateExplanations(metadata, breakdown);
+  const chartData = generateChartData(activeDays, referenceDay, config);
+  const messages = generateExplanations(metadata, breakdown, config, goal);
+
+  return {
+    score,
+    explanations: renderExplanations(messages, options.locale),
+    messages,
+    chartData,
+    metadata,
+    breakdown,
+    ...(goal && { goal }),
+  };
+}
+
+/**
+ * Numeric score only (no chart data or explanations)
+ *
+ * Cheap enough to call once per day for score history.
+ */
+export function calculateScoreComponents(
+  activeDays: ActiveDay[],
+  referenceDay: string,
+  options: ScoringOptions = {}
+): ScoreComponents {
+  const {
+    goal,
+    config = DEFAULT_SCORING_CONFIG,
+    distributionModel = 'max-gap',
+    coverage,
+    streak = {},
+  } = options;
+
+  validateScoringConfig(config);
+  validateStreakRules(streak);
+
+  // Derive metadata (gaps, streaks, recency)
+  const metadata = calculateMetadata(activeDays, referenceDay, config, streak);
+  metadata.partialData = coverage?.complete === false;
+
+  // Goal mode replaces the fixed frequency ratio with weekly attainment
+  const goalProgress = goal
+    ? evaluateGoal(activeDays, referenceDay, goal, config.windowDays)
+    : undefined;
+
+  // Base score components
+  const breakdown = calculateScoreBreakdown(
+    activeDays,
+    metadata,
+    config,
+    distributionModel,
+    goalProgress
+  );
+
+  // Streak bonus follows the streak rules applied in metadata
+  breakdown.streakBonus = calculateStreakBonus(metadata, config);
 
   // Final score (defensive clamp)
-  const rawScore =
-    breakdown.baseScore +
-    breakdown.distributionBonus +
-    breakdown.streakBonus +
-    breakdown.recencyBonus;
+  const rawScore = sumBreakdown(breakdown);
 
   const score = Math.max(0, Math.min(100, Math.round(rawScore)));
 
   return {
     score,
-    explanations,
-    chartData,
     metadata,
     breakdown,
+    ...(goalProgress && { goal: goalProgress }),
   };
 }
 
+/**
+ * Sum of the score components, before rounding and clamping
+ */
+function sumBreakdown(breakdown: ScoreBreakdown): number {
+  return (
+    breakdown.baseScore +
+    breakdown.distributionBonus +
+    breakdown.streakBonus +
+    breakdown.recencyBonus
+  );
+}
+
 /**
  * Group sessions by calendar date in user's timezone
  * Multiple sessions per day count as one active day
+ *
+ * Sessions that carry their own timezone (e.g. recorded while travelling)
+ * are bucketed by the local day where they happened. Sessions shorter
+ * than minSessionDurationSec don't make a day active.
  */
-function groupSessionsByDay(
+export function groupSessionsByDay(
   sessions: Session[],
-  timezone: string
+  timezone: string,
+  minSessionDurationSec: number = 0
 ): ActiveDay[] {
   const dayMap = new Map<string, ActiveDay>();
 
   for (const session of sessions) {
-    const dateStr = toLocalDateString(session.timestamp, timezone);
+    if (!countsAsActivity(session, minSessionDurationSec)) continue;
+
+    const dateStr = toLocalDateString(
+      session.timestamp,
+      session.timezone ?? timezone
+    );
 
     if (!dayMap.has(dateStr)) {
       dayMap.set(dateStr, {
@@ -97,13 +453,94 @@ function groupSessionsByDay(
   );
 }
 
+/**
+ * Mini consistency score per activity type, plus a type-mix summary
+ *
+ * Each type is scored on its own active days inside the window, with the
+ * caller's config but without a goal (goals span all activity).
+ */
+function calculateActivityTypeMix(
+  sessions: Session[],
+  referenceDay: string,
+  options: ScoringOptions
+): ActivityTypeMix {
+  const {
+    timezone = 'UTC',
+    config = DEFAULT_SCORING_CONFIG,
+    minSessionDurationSec,
+    distributionModel,
+  } = options;
+
+  const scored = [...groupSessionsByType(sessions)].map(
+    ([type, typeSessions]) => {
+      const activeDays = selectWindow(
+        groupSessionsByDay(typeSessions, timezone, minSessionDurationSec),
+        referenceDay,
+        config.windowDays
+      );
+      const { score, metadata } = calculateScoreComponents(
+        activeDays,
+        referenceDay,
+        { config, distributionModel, streak: options.streak }
+      );
+
+      return {
+        type,
+        sessions: metadata.totalSessions,
+        activeDays: metadata.activeDays,
+        currentStreak: metadata.currentStreak,
+        longestStreak: metadata.longestStreak,
+        score,
+        share: 0,
+      };
+    }
+  );
+
+  const totalSessions = scored.reduce((sum, t) => sum + t.sessions, 0);
+
+  const types = scored
+    .filter(t => t.sessions > 0)
+    .map(t => ({ ...t, share: t.sessions / totalSessions }))
+    .sort(
+      (a, b) => b.activeDays - a.activeDays || a.type.localeCompare(b.type)
+    );
+
+  return {
+    types,
+    summary: describeActivityTypeMix(types, options.locale),
+    messages: activityTypeMixMessages(types),
+  };
+}
+
+/**
+ * Active days inside the window ending on referenceDay (inclusive)
+ */
+export function selectWindow(
+  activeDays: ActiveDay[],
+  referenceDay: string,
+  windowDays: number
+): ActiveDay[] {
+  const windowStart = addDays(referenceDay, -(windowDays - 1));
+  return activeDays.filter(
+    d => d.date >= windowStart && d.date <= referenceDay
+  );
+}
+
 /**
  * Base score: frequency of active days
- * (activeDays / 28) * 60
+ * (activeDays / windowDays) * weights.base,
+ * or goal attainment * weights.base in goal mode
  */
-function calculateBaseScore(activeDays: ActiveDay[]): number {
-  const MAX_BASE_SCORE = 60;
-  return (activeDays.length / WINDOW_DAYS) * MAX_BASE_SCORE;
+function calculateBaseScore(
+  activeDays: ActiveDay[],
+  config: ScoringConfig,
+  goalProgress?: GoalProgress
+): number {
+  if (goalProgress) {
+    return goalProgress.attainment * config.weights.base;
+  }
+
+  return (activeDays.length / config.windowDays) * config.weights.base;
 }
 
 /**
@@ -112,77 +549,97 @@ function calculateBaseScore(activeDays: ActiveDay[]): number {
  *
  * Simple, explainable rule:
  * - Measure the longest gap between active days
- * - Normalize against the 28-day window
+ * - Normalize against the window length
  */
-function calculateDistributionBonus(activeDays: ActiveDay[]): number {
-  const MAX_DISTRIBUTION_BONUS = 25;
-
+function calculateDistributionBonus(
+  activeDays: ActiveDay[],
+  config: ScoringConfig
+): number {
   if (activeDays.length < 2) return 0;
 
-  const gaps: number[] = [];
-
-  for (let i = 1; i < activeDays.length; i++) {
-    const prev = new Date(activeDays[i - 1].date);
-    const curr = new Date(activeDays[i].date);
-    const gapDays = Math.floor(
-      (curr.getTime() - prev.getTime()) / (1000 * 60 * 60 * 24)
-    );
-    gaps.push(gapDays);
-  }
+  const maxGap = Math.max(...calculateGaps(activeDays));
+  const distributionQuality = 1 - Math.min(maxGap / config.windowDays, 1);
 
-  const maxGap = Math.max(...gaps);
-  const distributionQuality = 1 - Math.min(maxGap / WINDOW_DAYS, 1);
-
-  return distributionQuality * MAX_DISTRIBUTION_BONUS;
+  return distributionQuality * config.weights.distribution;
 }
 
 /**
- * Streak bonus (current consecutive days)
- * +2 points per day, capped at 10
+ * Standard-deviation distribution bonus
+ * (1 - stdDev / normalizationBound) * weights.distribution
+ *
+ * Perfectly even gaps (including a single gap) earn the full bonus.
  */
-function calculateStreakBonus(
-  activeDays: ActiveDay[],
-  referenceDate: Date,
-  timezone: string
+function calculateStdDevDistributionBonus(
+  metadata: ConsistencyMetadata,
+  config: ScoringConfig
 ): number {
-  const MAX_STREAK_BONUS = 10;
-  const POINTS_PER_DAY = 2;
+  const { count, stdDev, normalizationBound } = metadata.gapStats;
 
-  if (activeDays.length === 0) return 0;
+  if (count === 0) return 0;
 
-  const activeDaySet = new Set(activeDays.map(d => d.date));
+  const distributionQuality =
+    normalizationBound > 0 ? 1 - stdDev / normalizationBound : 1;
 
-  let streak = 0;
-  let checkDate = new Date(
-    toLocalDateString(referenceDate, timezone)
-  );
+  return distributionQuality * config.weights.distribution;
+}
 
-  for (let i = 0; i < WINDOW_DAYS; i++) {
-    const dateStr = toLocalDateString(checkDate, timezone);
+/**
+ * Rhythm-aware distribution bonus
+ *
+ * A detected weekday rhythm earns confidence * weights.distribution.
+ * Takes the higher of that and the max-gap bonus, so recognizing a
+ * rhythm never lowers a score.
+ */
+function calculateRhythmDistributionBonus(
+  activeDays: ActiveDay[],
+  metadata: ConsistencyMetadata,
+  config: ScoringConfig
+): number {
+  const maxGapBonus = calculateDistributionBonus(activeDays, config);
 
-    if (activeDaySet.has(dateStr)) {
-      streak++;
-    } else if (streak > 0) {
-      break;
-    }
+  if (!metadata.rhythm) return maxGapBonus;
 
-    checkDate.setDate(checkDate.getDate() - 1);
-  }
+  const rhythmBonus = metadata.rhythm.confidence * config.weights.distribution;
+  return Math.max(rhythmBonus, maxGapBonus);
+}
 
-  return Math.min(streak * POINTS_PER_DAY, MAX_STREAK_BONUS);
+/**
+ * Streak bonus (current streak, see streaks.ts)
+ * +streakPointsPerDay per day, capped at weights.streak
+ */
+function calculateStreakBonus(
+  metadata: ConsistencyMetadata,
+  config: ScoringConfig
+): number {
+  return Math.min(
+    metadata.currentStreak * config.streakPointsPerDay,
+    config.weights.streak
+  );
 }
 
 /**
  * Recency bonus
  * Encourages recent activity
  */
-function calculateRecencyBonus(metadata: ConsistencyMetadata): number {
+function calculateRecencyBonus(
+  metadata: ConsistencyMetadata,
+  config: ScoringConfig
+): number {
+  return matchRecencyBucket(metadata, config)?.points ?? 0;
+}
+
+/**
+ * First recency bucket the last session falls into (none without activity)
+ */
+function matchRecencyBucket(
+  metadata: ConsistencyMetadata,
+  config: ScoringConfig
+): RecencyBucket | undefined {
   const { daysSinceLastSession } = metadata;
 
-  if (daysSinceLastSession <= 1) return 5;
-  if (daysSinceLastSession <= 3) return 3;
-  if (daysSinceLastSession <= 7) return 1;
-  return 0;
+  if (metadata.activeDays === 0) return undefined;
+
+  return config.recencyBuckets.find(b => daysSinceLastSession <= b.maxDaysAgo);
 }
 
 /**
@@ -190,32 +647,106 @@ function calculateRecencyBonus(metadata: ConsistencyMetadata): number {
  */
 function calculateScoreBreakdown(
   activeDays: ActiveDay[],
-  metadata: ConsistencyMetadata
+  metadata: ConsistencyMetadata,
+  config: ScoringConfig,
+  distributionModel: DistributionModel,
+  goalProgress?: GoalProgress
 ): ScoreBreakdown {
   return {
-    baseScore: calculateBaseScore(activeDays),
-    distributionBonus: calculateDistributionBonus(activeDays),
+    baseScore: calculateBaseScore(activeDays, config, goalProgress),
+    distributionBonus: selectDistributionBonus(
+      activeDays,
+      metadata,
+      config,
+      distributionModel
+    ),
     streakBonus: 0, // calculated separately
-    recencyBonus: calculateRecencyBonus(metadata),
+    recencyBonus: calculateRecencyBonus(metadata, config),
   };
 }
 
+/**
+ * Distribution bonus for the selected model
+ */
+function selectDistributionBonus(
+  activeDays: ActiveDay[],
+  metadata: ConsistencyMetadata,
+  config: ScoringConfig,
+  distributionModel: DistributionModel
+): number {
+  switch (distributionModel) {
+    case 'std-dev':
+      return calculateStdDevDistributionBonus(metadata, config);
+    case 'rhythm':
+      return calculateRhythmDistributionBonus(activeDays, metadata, config);
+    default:
+      return calculateDistributionBonus(activeDays, config);
+  }
+}
+
+/**
+ * Mean, standard deviation and normalization bound of the gaps
+ *
+ * The bound is the largest standard deviation the same number of gaps
+ * could have over the same span: every gap 1 day except one long gap.
+ */
+function calculateGapStatistics(gaps: number[]): GapStatistics {
+  const count = gaps.length;
+
+  if (count === 0) {
+    return { count: 0, mean: 0, stdDev: 0, normalizationBound: 0 };
+  }
+
+  const span = gaps.reduce((s, g) => s + g, 0);
+  const mean = span / count;
+
+  const stdDev = Math.sqrt(
+    gaps.reduce((s, g) => s + (g - mean) ** 2, 0) / count
+  );
+
+  const extremeGaps = [...new Array(count - 1).fill(1), span - (count - 1)];
+  const normalizationBound = Math.sqrt(
+    extremeGaps.reduce((s, g) => s + (g - mean) ** 2, 0) / count
+  );
+
+  return { count, mean, stdDev, normalizationBound };
+}
+
+/**
+ * Days between consecutive active days
+ */
+function calculateGaps(activeDays: ActiveDay[]): number[] {
+  const gaps: number[] = [];
+
+  for (let i = 1; i < activeDays.length; i++) {
+    gaps.push(daysBetween(activeDays[i - 1].date, activeDays[i].date));
+  }
+
+  return gaps;
+}
+
 /**
  * Compute metadata about activity patterns
  */
 function calculateMetadata(
   activeDays: ActiveDay[],
-  referenceDate: Date,
-  timezone: string
+  referenceDay: string,
+  config: ScoringConfig,
+  streakRules: StreakRules
 ): ConsistencyMetadata {
   if (activeDays.length === 0) {
     return {
       totalSessions: 0,
       activeDays: 0,
       longestStreak: 0,
+      currentStreak: 0,
+      frozenDays: [],
       longestGap: 0,
       averageGap: 0,
-      daysSinceLastSession: WINDOW_DAYS,
+      daysSinceLastSession: config.windowDays,
+      rhythm: null,
+      gapStats: calculateGapStatistics([]),
+      partialData: false,
     };
   }
 
@@ -224,64 +755,47 @@ function calculateMetadata(
     0
   );
 
-  // Longest streak
-  let longestStreak = 1;
-  let currentStreak = 1;
-
-  for (let i = 1; i < activeDays.length; i++) {
-    const prev = new Date(activeDays[i - 1].date);
-    const curr = new Date(activeDays[i].date);
-    const diffDays = Math.floor(
-      (curr.getTime() - prev.getTime()) / (1000 * 60 * 60 * 24)
-    );
-
-    if (diffDays === 1) {
-      currentStreak++;
-      longestStreak = Math.max(longestStreak, currentStreak);
-    } else {
-      currentStreak = 1;
-    }
-  }
-
   // Gaps
-  const gaps: number[] = [];
-  for (let i = 1; i < activeDays.length; i++) {
-    const prev = new Date(activeDays[i - 1].date);
-    const curr = new Date(activeDays[i].date);
-    const gap = Math.floor(
-      (curr.getTime() - prev.getTime()) / (1000 * 60 * 60 * 24)
-    );
-    gaps.push(gap);
-  }
+  const gaps = calculateGaps(activeDays);
+
+  // Current and longest streak under the same rules
+  const streaks = analyzeStreaks(
+    activeDays,
+    referenceDay,
+    config.windowDays,
+    streakRules
+  );
 
   const longestGap = gaps.length ? Math.max(...gaps) : 0;
   const averageGap = gaps.length
     ? gaps.reduce((s, g) => s + g, 0) / gaps.length
     : 0;
 
-  const lastDate = new Date(activeDays[activeDays.length - 1].date);
-  const refLocal = new Date(toLocalDateString(referenceDate, timezone));
-  const daysSinceLastSession = Math.floor(
-    (refLocal.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24)
-  );
+  const lastDate = activeDays[activeDays.length - 1].date;
+  const daysSinceLastSession = daysBetween(lastDate, referenceDay);
 
   return {
     totalSessions,
     activeDays: activeDays.length,
-    longestStreak,
+    longestStreak: streaks.longest,
+    currentStreak: streaks.current,
+    frozenDays: streaks.frozenDays,
     longestGap,
     averageGap,
     daysSinceLastSession,
+    rhythm: detectWeeklyRhythm(activeDays, referenceDay, config.windowDays),
+    gapStats: calculateGapStatistics(gaps),
+    partialData: false,
   };
 }
 
 /**
- * Generate 28 days of chart data
+ * Generate one chart entry per day in the window
  */
 function generateChartData(
   activeDays: ActiveDay[],
-  referenceDate: Date,
-  timezone: string
+  referenceDay: string,
+  config: ScoringConfig
 ): DayActivity[] {
   const activeDayMap = new Map(
     activeDays.map(d => [d.date, d])
@@ -289,10 +803,8 @@ function generateChartData(
 
   const chart: DayActivity[] = [];
 
-  for (let i = WINDOW_DAYS - 1; i >= 0; i--) {
-    const d = new Date(referenceDate);
-    d.setDate(d.getDate() - i);
-    const dateStr = toLocalDateString(d, timezone);
+  for (let i = config.windowDays - 1; i >= 0; i--) {
+    const dateStr = addDays(referenceDay, -i);
 
     const day = activeDayMap.get(dateStr);
 
@@ -307,60 +819,162 @@ function generateChartData(
 }
 
 /**
- * Generate human-readable explanations (max 5)
+ * Generate explanation messages (max 5), rendered later per locale
  */
 function generateExplanations(
   metadata: ConsistencyMetadata,
-  breakdown: ScoreBreakdown
-): string[] {
-  const bullets: string[] = [];
-
-  const pct = Math.round((metadata.activeDays / WINDOW_DAYS) * 100);
-  bullets.push(`You trained ${metadata.activeDays} out of 28 days (${pct}%)`);
+  breakdown: ScoreBreakdown,
+  config: ScoringConfig,
+  goalProgress?: GoalProgress
+): ExplanationMessage[] {
+  const bullets: ExplanationMessage[] = [];
+  const { windowDays, weights } = config;
+
+  if (goalProgress) {
+    bullets.push(...generateGoalExplanations(goalProgress));
+  } else {
+    const pct = Math.round((metadata.activeDays / windowDays) * 100);
+    bullets.push({
+      key: 'frequency',
+      params: { activeDays: metadata.activeDays, windowDays, pct },
+      tone: pct >= 50 ? 'positive' : 'neutral',
+      component: 'baseScore',
+    });
+  }
 
-  if (metadata.activeDays >= 2) {
+  if (metadata.activeDays >= 2 && weights.distribution > 0) {
     const distPct = Math.round(
-      (breakdown.distributionBonus / 25) * 100
+      (breakdown.distributionBonus / weights.distribution) * 100
     );
 
     if (distPct >= 75) {
-      bullets.push('Your sessions are evenly distributed');
+      bullets.push(distributionMessage('distribution.even', 'positive'));
     } else if (distPct >= 50) {
-      bullets.push('Your sessions are fairly well spaced');
+      bullets.push(distributionMessage('distribution.fair', 'neutral'));
     } else {
-      bullets.push('Long gaps reduce your consistency score');
+      bullets.push(distributionMessage('distribution.gaps', 'warning'));
     }
   }
 
+  if (metadata.rhythm) {
+    const clockwork = metadata.rhythm.confidence >= 0.9;
+    bullets.push({
+      key: clockwork ? 'rhythm.clockwork' : 'rhythm.usual',
+      params: rhythmParams(metadata.rhythm.weekdays),
+      tone: 'positive',
+      component: 'distributionBonus',
+    });
+  }
+
   if (metadata.longestStreak > 1) {
-    bullets.push(`Longest streak: ${metadata.longestStreak} days`);
+    bullets.push({
+      key: 'streak.longest',
+      params: { days: metadata.longestStreak },
+      tone: 'positive',
+      component: 'streakBonus',
+    });
+  }
+
+  if (metadata.frozenDays.length > 0) {
+    bullets.push({
+      key: 'streak.freeze',
+      params: { count: metadata.frozenDays.length },
+      tone: 'positive',
+      component: 'streakBonus',
+    });
   }
 
-  if (metadata.daysSinceLastSession <= 3) {
+  if (metadata.activeDays > 0 && metadata.daysSinceLastSession <= 3) {
     bullets.push(
       metadata.daysSinceLastSession === 0
-        ? 'You exercised today—great momentum!'
-        : `Last session was ${metadata.daysSinceLastSession} days ago`
+        ? {
+            key: 'recency.today',
+            params: {},
+            tone: 'positive',
+            component: 'recencyBonus',
+          }
+        : {
+            key: 'recency.daysAgo',
+            params: { days: metadata.daysSinceLastSession },
+            tone: 'neutral',
+            component: 'recencyBonus',
+          }
     );
   }
 
   if (metadata.longestGap > 7 && bullets.length < 5) {
-    bullets.push(`Longest gap: ${metadata.longestGap} days`);
+    bullets.push({
+      key: 'gap.longest',
+      params: { days: metadata.longestGap },
+      tone: 'warning',
+      component: 'distributionBonus',
+    });
+  }
+
+  // Keep the caveat visible: it qualifies every other bullet
+  if (metadata.partialData) {
+    bullets.splice(1, 0, {
+      key: 'data.partial',
+      params: {},
+      tone: 'warning',
+      component: null,
+    });
   }
 
   return bullets.slice(0, 5);
 }
 
 /**
- * Convert Date to YYYY-MM-DD in user's timezone
+ * Goal-aware bullets: weeks met, plus progress in the current week
  */
-function toLocalDateString(date: Date, timezone: string): string {
-  const formatter = new Intl.DateTimeFormat('en-CA', {
-    timeZone: timezone,
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-  });
+function generateGoalExplanations(
+  goalProgress: GoalProgress
+): ExplanationMessage[] {
+  const { activeDaysPerWeek, weeksMet, weeksEvaluated, weeks } = goalProgress;
+  const bullets: ExplanationMessage[] = [
+    {
+      key: 'goal.weeksMet',
+      params: {
+        target: activeDaysPerWeek,
+        met: weeksMet,
+        evaluated: weeksEvaluated,
+      },
+      tone: weeksMet * 2 >= weeksEvaluated ? 'positive' : 'neutral',
+      component: 'baseScore',
+    },
+  ];
+
+  const current = weeks[weeks.length - 1];
+  if (current?.status === 'in-progress') {
+    bullets.push({
+      key: 'goal.thisWeek',
+      params: { activeDays: current.activeDays, target: current.target },
+      tone: 'neutral',
+      component: 'baseScore',
+    });
+  }
+
+  return bullets;
+}
+
+/**
+ * Distribution bullet (no params)
+ */
+function distributionMessage(
+  key: ExplanationKey,
+  tone: ExplanationTone
+): ExplanationMessage {
+  return { key, params: {}, tone, component: 'distributionBonus' };
+}
 
-  return formatter.format(date);
-}
\ No newline at end of file
+/**
+ * Template params for a weekday rhythm (see rhythm.* messages)
+ */
+function rhythmParams(weekdays: number[]): Record<string, string> {
+  const days = weekdays.join(',');
+
+  if (weekdays.length === 7) return { rhythm: 'daily', days };
+  if (days === '0,6') return { rhythm: 'weekends', days };
+  if (days === '1,2,3,4,5') return { rhythm: 'weekdays', days };
+  return { rhythm: 'custom', days };
+}
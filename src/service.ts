@@ -0,0 +1,52 @@
+/**
+ * High-level entry points that wire storage to the pure scoring engine
+ */
+
+import { ConsistencyScore, UserScoreOptions } from './types';
+import { SessionRepository } from './repository';
+import { calculateConsistencyScore } from './scoring';
+import { DEFAULT_SCORING_CONFIG } from './config';
+import { assertValidTimezone } from './dates';
+
+/**
+ * Fetch a user's window and score it in their stored timezone
+ *
+ * Timezone precedence: options.timezone, then the user profile, then UTC.
+ * The zone is resolved before fetching so the window starts at the user's
+ * local midnight, not the server's.
+ *
+ * @throws InvalidTimezoneError if the resolved zone is not a valid IANA zone
+ */
+export async function getConsistencyScoreForUser(
+  repo: SessionRepository,
+  userId: string,
+  options: UserScoreOptions = {}
+): Promise<ConsistencyScore> {
+  const {
+    referenceDate = new Date(),
+    pageSize,
+    maxReads,
+    config = DEFAULT_SCORING_CONFIG,
+  } = options;
+
+  const timezone =
+    options.timezone ?? (await repo.getUserTimezone(userId)) ?? 'UTC';
+  assertValidTimezone(timezone);
+
+  const { sessions, complete, reads } = await repo.fetchSessionWindow(userId, {
+    days: config.windowDays,
+    referenceDate,
+    timezone,
+    activityTypes: options.activityTypes,
+    pageSize,
+    maxReads,
+  });
+
+  return calculateConsistencyScore({
+    ...options,
+    sessions,
+    referenceDate,
+    timezone,
+    coverage: { complete, reads },
+  });
+}
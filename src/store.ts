@@ -0,0 +1,76 @@
+/**
+ * Per-user documents under users/{userId}/consistency/{docId}
+ *
+ * Shared storage for the score cache and achievements: plain reads plus
+ * read-modify-write updates that run atomically per user.
+ */
+
+import { DocumentData, Firestore } from 'firebase-admin/firestore';
+
+/**
+ * Storage for one document per user
+ *
+ * `update` must run read-modify-write atomically per user.
+ */
+export interface UserDocumentStore<T> {
+  read(userId: string): Promise<T | null>;
+  update(userId: string, fn: (current: T | null) => T): Promise<T>;
+}
+
+/**
+ * Firestore-backed store (runs updates in a transaction)
+ */
+export function createFirestoreUserDocumentStore<T>(
+  db: Firestore,
+  docId: string
+): UserDocumentStore<T> {
+  const docRef = (userId: string) =>
+    db.collection('users').doc(userId).collection('consistency').doc(docId);
+
+  return {
+    async read(userId) {
+      const snapshot = await docRef(userId).get();
+      return snapshot.exists ? (snapshot.data() as T) : null;
+    },
+
+    async update(userId, fn) {
+      return db.runTransaction(async tx => {
+        const snapshot = await tx.get(docRef(userId));
+        const next = fn(snapshot.exists ? (snapshot.data() as T) : null);
+        tx.set(docRef(userId), next as DocumentData);
+        return next;
+      });
+    },
+  };
+}
+
+/**
+ * In-memory store for tests and local tools
+ *
+ * Updates for the same user are serialized, mirroring a transaction.
+ */
+export function createInMemoryUserDocumentStore<T>(): UserDocumentStore<T> {
+  const docs = new Map<string, T>();
+  const queues = new Map<string, Promise<unknown>>();
+
+  return {
+    async read(userId) {
+      const doc = docs.get(userId);
+      return doc ? structuredClone(doc) : null;
+    },
+
+    update(userId, fn) {
+      const previous = queues.get(userId) ?? Promise.resolve();
+      const next = previous.then(() => {
+        const current = docs.get(userId);
+        const updated = fn(current ? structuredClone(current) : null);
+        docs.set(userId, structuredClone(updated));
+        return updated;
+      });
+
+      // Keep the queue alive even if this update throws
+      queues.set(userId, next.catch(() => undefined));
+      return next;
+    },
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Streak model with planned rest days, freeze tokens and a grace rule
+ *
+ * One chronological pass produces both the current and the longest
+ * streak, so the two always follow the same rules:
+ * - A streak counts active days; any missed day breaks it, except
+ * - rest days (e.g. Sundays), which neither count nor break,
+ * - missed days bridged by freezes (spent automatically, oldest first,
+ *   only when the streak continues afterwards), and
+ * - today, which can't break the current streak until it is over.
+ */
+
+import {
+  ActiveDay,
+  ActivityStreak,
+  StreakRules,
+  StreakSummary,
+  StreakWalkDay,
+} from './types';
+import { addDays, dayOfWeek } from './dates';
+import { ScoringConfigError } from './errors';
+
+export const DEFAULT_STREAK_RULES: Required<StreakRules> = {
+  restDays: [],
+  freezesPerWindow: 0,
+  graceToday: true,
+};
+
+/**
+ * Validate streak rules
+ *
+ * @throws ScoringConfigError if any value is out of range
+ */
+export function validateStreakRules(rules: StreakRules): void {
+  const { restDays, freezesPerWindow } = { ...DEFAULT_STREAK_RULES, ...rules };
+
+  if (restDays.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+    throw new ScoringConfigError(
+      `restDays must be weekdays 0–6 (got ${restDays.join(', ')})`
+    );
+  }
+
+  if (new Set(restDays).size >= 7) {
+    throw new ScoringConfigError('restDays cannot cover the whole week');
+  }
+
+  if (!Number.isInteger(freezesPerWindow) || freezesPerWindow < 0) {
+    throw new ScoringConfigError(
+      `freezesPerWindow must be a non-negative integer (got ${freezesPerWindow})`
+    );
+  }
+}
+
+/**
+ * Current and longest streak for the window ending on referenceDay
+ *
+ * The current streak only counts active days inside the window.
+ */
+export function analyzeStreaks(
+  activeDays: ActiveDay[],
+  referenceDay: string,
+  windowDays: number,
+  rules: StreakRules = {}
+): StreakSummary {
+  return walkStreaks(activeDays, referenceDay, windowDays, rules).summary;
+}
+
+/**
+ * Day-by-day record of how analyzeStreaks reached its result
+ */
+export function traceStreaks(
+  activeDays: ActiveDay[],
+  referenceDay: string,
+  windowDays: number,
+  rules: StreakRules = {}
+): StreakWalkDay[] {
+  return walkStreaks(activeDays, referenceDay, windowDays, rules).walk;
+}
+
+/**
+ * Every streak up to referenceDay, oldest first, under the same rules as
+ * analyzeStreaks: rest and frozen days extend a streak without counting,
+ * so the longest `days` equals the longest streak
+ */
+export function findStreaks(
+  activeDays: ActiveDay[],
+  referenceDay: string,
+  windowDays: number,
+  rules: StreakRules = {}
+): ActivityStreak[] {
+  const { walk } = walkStreaks(activeDays, referenceDay, windowDays, rules);
+  const streaks: ActivityStreak[] = [];
+  let current: ActivityStreak | null = null;
+
+  for (const day of walk) {
+    if (day.status === 'active' && current) {
+      current.end = day.date;
+      current.days++;
+    } else if (day.status === 'active') {
+      current = { start: day.date, end: day.date, days: 1 };
+      streaks.push(current);
+    } else if (day.status === 'missed' || day.status === 'idle') {
+      current = null;
+    }
+  }
+
+  return streaks;
+}
+
+/**
+ * The single chronological pass behind analyzeStreaks, traceStreaks and
+ * findStreaks
+ */
+function walkStreaks(
+  activeDays: ActiveDay[],
+  referenceDay: string,
+  windowDays: number,
+  rules: StreakRules
+): { summary: StreakSummary; walk: StreakWalkDay[] } {
+  const { restDays, freezesPerWindow, graceToday } = {
+    ...DEFAULT_STREAK_RULES,
+    ...rules,
+  };
+
+  const windowStart = addDays(referenceDay, -(windowDays - 1));
+  const active = new Set(activeDays.map(d => d.date));
+  const rest = new Set(restDays);
+
+  // Earlier active days (if passed in) still count toward the longest
+  const first = activeDays[0]?.date ?? windowStart;
+  const start = first < windowStart ? first : windowStart;
+
+  let freezesLeft = freezesPerWindow;
+  let run: string[] = []; // Active days of the streak in progress
+  let missed: StreakWalkDay[] = []; // Missed since the streak's last active day
+  let longest = 0;
+  const frozenDays: string[] = [];
+  const walk: StreakWalkDay[] = [];
+
+  const freeze = (days: StreakWalkDay[]) => {
+    for (const day of days) {
+      day.status = 'frozen';
+      frozenDays.push(day.date);
+    }
+  };
+
+  for (let date = start; date <= referenceDay; date = addDays(date, 1)) {
+    const day: StreakWalkDay = { date, status: 'idle' };
+    walk.push(day);
+
+    if (active.has(date)) {
+      if (missed.length > 0 && missed.length <= freezesLeft) {
+        freezesLeft -= missed.length;
+        freeze(missed);
+      } else if (missed.length > 0) {
+        longest = Math.max(longest, run.length);
+        run = [];
+      }
+      missed = [];
+      run.push(date);
+      day.status = 'active';
+    } else if (run.length > 0 && rest.has(dayOfWeek(date))) {
+      day.status = 'rest';
+    } else if (run.length > 0) {
+      day.status = 'missed';
+      missed.push(day);
+    }
+  }
+
+  longest = Math.max(longest, run.length);
+
+  // The last run is current if the days missed since (today excepted
+  // under the grace rule) can still be bridged
+  const today = missed.find(d => d.date === referenceDay);
+  const pending = graceToday ? missed.filter(d => d !== today) : missed;
+  const alive = run.length > 0 && pending.length <= freezesLeft;
+
+  if (!alive) {
+    return { summary: { current: 0, longest, frozenDays }, walk };
+  }
+
+  freeze(pending);
+  if (graceToday && today) today.status = 'grace';
+
+  return {
+    summary: {
+      current: run.filter(d => d >= windowStart).length,
+      longest,
+      frozenDays,
+    },
+    walk,
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * "How to raise your score" suggestions
+ *
+ * Each suggestion replays the scoring engine on a simulated future
+ * (the user's real active days plus planned ones), so projected scores
+ * are exactly what calculateConsistencyScore would report on that day.
+ * Suggestions describe training days only — never intensity or health.
+ */
+
+import {
+  ActiveDay,
+  ExplanationKey,
+  ImprovementSuggestion,
+  ScoreBreakdown,
+  ScoreComponents,
+  ScoreInput,
+  SuggestionAction,
+} from './types';
+import {
+  addDays,
+  dayOfWeek,
+  daysBetween,
+  toLocalDateString,
+} from './dates';
+import {
+  calculateScoreComponents,
+  groupSessionsByDay,
+  selectWindow,
+} from './scoring';
+import { DEFAULT_SCORING_CONFIG } from './config';
+import { detectWeeklyRhythm } from './patterns';
+import { validateEffortOptions } from './effort';
+import { acceptSessions } from './validation';
+import { createExplanationRenderer } from './explanations';
+
+const MESSAGE_KEYS: Record<SuggestionAction, ExplanationKey> = {
+  'train-today': 'suggestion.today',
+  'train-tomorrow': 'suggestion.tomorrow',
+  'spread-next-week': 'suggestion.nextWeek',
+};
+
+/**
+ * Ranked suggestions (largest gain first); actions that would not raise
+ * the score are left out
+ *
+ * Projections cover the consistency score only (effort blending is
+ * ignored). Takes the same input as calculateConsistencyScore.
+ */
+export function suggestImprovements(
+  input: ScoreInput
+): ImprovementSuggestion[] {
+  const {
+    referenceDate = new Date(),
+    timezone = 'UTC',
+    config = DEFAULT_SCORING_CONFIG,
+    minSessionDurationSec,
+  } = input;
+
+  validateEffortOptions(input);
+
+  const referenceDay = toLocalDateString(referenceDate, timezone);
+  const activeDays = groupSessionsByDay(
+    acceptSessions(input.sessions, referenceDay, timezone, input),
+    timezone,
+    minSessionDurationSec
+  );
+
+  const score = (days: ActiveDay[], day: string) =>
+    calculateScoreComponents(
+      selectWindow(days, day, config.windowDays),
+      day,
+      input
+    );
+
+  const current = score(activeDays, referenceDay);
+  const renderer = createExplanationRenderer(input.locale);
+
+  const plans: [SuggestionAction, string[]][] = [
+    ['train-today', [referenceDay]],
+    ['train-tomorrow', [addDays(referenceDay, 1)]],
+    [
+      'spread-next-week',
+      planNextWeek(activeDays, referenceDay, config.windowDays),
+    ],
+  ];
+
+  const suggestions: ImprovementSuggestion[] = [];
+
+  for (const [action, days] of plans) {
+    const known = new Set(activeDays.map(d => d.date));
+    if (days.every(d => known.has(d))) continue;
+
+    const projected = score(
+      withPlannedDays(activeDays, days),
+      days[days.length - 1]
+    );
+    const delta = projected.score - current.score;
+    if (delta <= 0) continue;
+
+    const message = {
+      key: MESSAGE_KEYS[action],
+      params: {
+        score: projected.score,
+        delta,
+        days: days.map(dayOfWeek).join(','),
+      },
+      tone: 'positive' as const,
+      component: largestGain(current, projected),
+    };
+
+    suggestions.push({
+      action,
+      days,
+      projectedScore: projected.score,
+      delta,
+      text: renderer.render(message),
+      message,
+    });
+  }
+
+  return suggestions.sort((a, b) => b.delta - a.delta);
+}
+
+/**
+ * Days over the next 7 that fit the user's history: one more per week
+ * than their current rate, and at least 2
+ *
+ * Upcoming days of the user's weekly rhythm come first; the rest go where
+ * they close the longest gap left after the last active or planned day.
+ */
+function planNextWeek(
+  activeDays: ActiveDay[],
+  referenceDay: string,
+  windowDays: number
+): string[] {
+  const inWindow = selectWindow(activeDays, referenceDay, windowDays);
+  const perWeek = Math.round((inWindow.length / windowDays) * 7);
+  const sessions = Math.min(7, Math.max(2, perWeek + 1));
+
+  const upcoming = [1, 2, 3, 4, 5, 6, 7].map(offset =>
+    addDays(referenceDay, offset)
+  );
+  const rhythm = detectWeeklyRhythm(inWindow, referenceDay, windowDays);
+  const planned = upcoming
+    .filter(day => rhythm?.weekdays.includes(dayOfWeek(day)))
+    .slice(0, sessions);
+
+  const lastActive = inWindow.length
+    ? inWindow[inWindow.length - 1].date
+    : referenceDay;
+
+  // Days from the nearest active or planned day
+  const distance = (day: string) =>
+    Math.min(
+      ...[lastActive, ...planned].map(d => Math.abs(daysBetween(d, day)))
+    );
+
+  while (planned.length < sessions) {
+    const open = upcoming.filter(day => !planned.includes(day));
+    planned.push(
+      open.reduce((best, day) => (distance(day) > distance(best) ? day : best))
+    );
+  }
+
+  return planned.sort();
+}
+
+/**
+ * Active days plus one session on each planned day, sorted
+ */
+function withPlannedDays(
+  activeDays: ActiveDay[],
+  planned: string[]
+): ActiveDay[] {
+  const byDate = new Map(activeDays.map(d => [d.date, d]));
+
+  for (const date of planned) {
+    if (!byDate.has(date)) {
+      byDate.set(date, { date, sessionCount: 1, totalDurationSec: 0 });
+    }
+  }
+
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Breakdown component that gains the most points
+ */
+function largestGain(
+  current: ScoreComponents,
+  projected: ScoreComponents
+): keyof ScoreBreakdown {
+  const components = Object.keys(current.breakdown) as (keyof ScoreBreakdown)[];
+
+  return components.reduce((best, key) =>
+    projected.breakdown[key] - current.breakdown[key] >
+    projected.breakdown[best] - current.breakdown[best]
+      ? key
+      : best
+  );
+}
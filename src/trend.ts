@@ -0,0 +1,125 @@
+/**
+ * Trend detection: current window vs. the window immediately before it
+ *
+ * Both windows are scored from a single session list with the same
+ * rules as calculateConsistencyScore, so the delta is fully explainable.
+ */
+
+import {
+  ExplanationMessage,
+  ScoreBreakdown,
+  ScoreTrend,
+  TrendDirection,
+  TrendInput,
+} from './types';
+import { addDays, toLocalDateString } from './dates';
+import { groupSessionsByDay, scoreActiveDays, selectWindow } from './scoring';
+import { DEFAULT_SCORING_CONFIG } from './config';
+import { acceptSessions } from './validation';
+import { createExplanationRenderer } from './explanations';
+
+const DEFAULT_STEADY_THRESHOLD = 3;
+
+/**
+ * Score the current window and the preceding one and compare them
+ *
+ * Sessions should cover 2 × windowDays (see fetchUserSessionsForTrend).
+ */
+export function calculateScoreTrend(input: TrendInput): ScoreTrend {
+  const {
+    sessions,
+    referenceDate = new Date(),
+    timezone = 'UTC',
+    config = DEFAULT_SCORING_CONFIG,
+    steadyThreshold = DEFAULT_STEADY_THRESHOLD,
+  } = input;
+
+  const { windowDays } = config;
+  const referenceDay = toLocalDateString(referenceDate, timezone);
+  const previousReferenceDay = addDays(referenceDay, -windowDays);
+
+  // Bucket once, then split into the two windows
+  const activeDays = groupSessionsByDay(
+    acceptSessions(sessions, referenceDay, timezone, input),
+    timezone,
+    input.minSessionDurationSec
+  );
+
+  const current = scoreActiveDays(
+    selectWindow(activeDays, referenceDay, windowDays),
+    referenceDay,
+    input
+  );
+  const previous = scoreActiveDays(
+    selectWindow(activeDays, previousReferenceDay, windowDays),
+    previousReferenceDay,
+    input
+  );
+
+  const delta = current.score - previous.score;
+  const componentDeltas: ScoreBreakdown = {
+    baseScore: current.breakdown.baseScore - previous.breakdown.baseScore,
+    distributionBonus:
+      current.breakdown.distributionBonus -
+      previous.breakdown.distributionBonus,
+    streakBonus: current.breakdown.streakBonus - previous.breakdown.streakBonus,
+    recencyBonus:
+      current.breakdown.recencyBonus - previous.breakdown.recencyBonus,
+  };
+
+  const direction = classifyTrend(delta, steadyThreshold);
+  const message = explainTrend(delta, direction, componentDeltas, windowDays);
+
+  return {
+    current,
+    previous,
+    delta,
+    direction,
+    componentDeltas,
+    explanation: createExplanationRenderer(input.locale).render(message),
+    message,
+  };
+}
+
+/**
+ * Label a score delta (threshold is inclusive for "steady")
+ */
+function classifyTrend(delta: number, steadyThreshold: number): TrendDirection {
+  if (delta > steadyThreshold) return 'improving';
+  if (delta < -steadyThreshold) return 'declining';
+  return 'steady';
+}
+
+/**
+ * One bullet: size of the change plus the component that drove it
+ */
+function explainTrend(
+  delta: number,
+  direction: TrendDirection,
+  componentDeltas: ScoreBreakdown,
+  windowDays: number
+): ExplanationMessage {
+  if (direction === 'steady') {
+    return {
+      key: 'trend.steady',
+      params: { windowDays },
+      tone: 'neutral',
+      component: null,
+    };
+  }
+
+  const sign = direction === 'improving' ? 1 : -1;
+  const components = Object.keys(componentDeltas) as (keyof ScoreBreakdown)[];
+
+  // Component that moved furthest in the same direction as the total
+  const driver = components.reduce((best, key) =>
+    componentDeltas[key] * sign > componentDeltas[best] * sign ? key : best
+  );
+
+  return {
+    key: direction === 'improving' ? 'trend.up' : 'trend.down',
+    params: { points: Math.abs(delta), windowDays, driver },
+    tone: direction === 'improving' ? 'positive' : 'warning',
+    component: driver,
+  };
+}
@@ -0,0 +1,1156 @@
+/**
+ * Type definitions for the Consistency Score system
+ * Designed to be explainable, non-medical, and mobile-friendly
+ */
+
+/**
+ * Raw session data (as stored in Firestore)
+ */
+export interface Session {
+  id: string; // Unique session ID (used for deduplication)
+  timestamp: Date;
+  durationSec?: number; // Duration in seconds (optional, may be missing/invalid)
+  type?: string;
+  timezone?: string; // IANA zone the session was recorded in (overrides the user's)
+  intensity?: number; // Perceived exertion (RPE 1–10), optional
+}
+
+/**
+ * Aggregated activity for a single calendar day
+ */
+export interface ActiveDay {
+  date: string; // YYYY-MM-DD (local to user timezone)
+  sessionCount: number;
+  totalDurationSec: number;
+}
+
+/**
+ * Per-day chart data for lightweight visualization
+ */
+export interface DayActivity {
+  date: string; // YYYY-MM-DD
+  hasActivity: boolean;
+  sessionCount: number;
+}
+
+/**
+ * Derived metadata describing user activity patterns
+ */
+export interface ConsistencyMetadata {
+  totalSessions: number;
+  activeDays: number;
+  longestStreak: number;
+  currentStreak: number; // Active days in the streak still alive on the reference day
+  frozenDays: string[]; // Missed days bridged by streak freezes
+  longestGap: number;
+  averageGap: number;
+  daysSinceLastSession: number;
+  rhythm: WeeklyRhythm | null; // Detected weekday pattern, if any
+  gapStats: GapStatistics;
+  partialData: boolean; // True when the fetch did not cover the whole window
+}
+
+/**
+ * Streak protection rules (see streaks.ts)
+ */
+export interface StreakRules {
+  restDays?: number[]; // Weekdays (0 = Sunday … 6) that never break a streak
+  freezesPerWindow?: number; // Missed days that can be bridged (default: 0)
+  graceToday?: boolean; // Today can't break the current streak (default: true)
+}
+
+/**
+ * Result of applying StreakRules to a window
+ */
+export interface StreakSummary {
+  current: number;
+  longest: number;
+  frozenDays: string[]; // YYYY-MM-DD, oldest first
+}
+
+/**
+ * One day of the streak walk (see traceStreaks)
+ * - 'active': had activity, extends the streak
+ * - 'rest': planned rest day inside a streak
+ * - 'missed': broke the streak (or left it unbridged)
+ * - 'frozen': missed but bridged by a freeze
+ * - 'grace': today, not yet held against the current streak
+ * - 'idle': no streak in progress
+ */
+export type StreakDayStatus =
+  | 'active'
+  | 'rest'
+  | 'missed'
+  | 'frozen'
+  | 'grace'
+  | 'idle';
+
+export interface StreakWalkDay {
+  date: string; // YYYY-MM-DD
+  status: StreakDayStatus;
+}
+
+/**
+ * Spread of the gaps between consecutive active days
+ */
+export interface GapStatistics {
+  count: number; // Number of gaps (activeDays - 1)
+  mean: number;
+  stdDev: number; // Population standard deviation
+  normalizationBound: number; // Largest stdDev possible for this count and span
+}
+
+/**
+ * Predictable weekday pattern (e.g. "every Mon/Wed/Fri", "every weekend")
+ */
+export interface WeeklyRhythm {
+  weekdays: number[]; // 0 = Sunday … 6 = Saturday, ascending
+  label: string;
+  confidence: number; // 0–1: adherence to the rhythm × share of activity it explains
+}
+
+/**
+ * How the distribution bonus is measured
+ * - 'max-gap': longest gap between active days (default)
+ * - 'std-dev': (1 - stdDev / normalizationBound) over the gaps
+ * - 'rhythm': credit for a detected weekday rhythm, falling back to max-gap
+ */
+export type DistributionModel = 'max-gap' | 'std-dev' | 'rhythm';
+
+/**
+ * Detailed score breakdown for transparency/debugging
+ */
+export interface ScoreBreakdown {
+  baseScore: number;         // Frequency or goal-attainment component (0–60 by default)
+  distributionBonus: number; // Even spacing reward (0–25 by default)
+  streakBonus: number;       // Current streak reward (0–10 by default)
+  recencyBonus: number;      // Recent activity reward (0–5 by default)
+}
+
+/**
+ * Complete consistency score output
+ */
+export interface ConsistencyScore {
+  score: number; // Final score (0–100)
+  explanations: string[]; // 3–5 human-readable bullets (`messages` rendered)
+  messages: ExplanationMessage[]; // Same bullets, structured for clients
+  chartData: DayActivity[]; // One entry per day in the window
+  metadata: ConsistencyMetadata;
+  breakdown: ScoreBreakdown;
+  goal?: GoalProgress; // Present only when a goal was supplied
+  effort?: EffortScore; // Present only when effort options were supplied
+  typeMix?: ActivityTypeMix; // Present only when groupByActivityType is set
+  trace?: ScoreTrace; // Present only when `trace` was requested
+  dataQuality?: DataQualityReport; // Present only when validation options were supplied
+}
+
+/**
+ * Consistency for a single activity type (e.g. "run")
+ */
+export interface ActivityTypeScore {
+  type: string; // UNTYPED_ACTIVITY for sessions without a type
+  sessions: number;
+  activeDays: number;
+  currentStreak: number;
+  longestStreak: number;
+  score: number; // Consistency score over this type's sessions alone
+  share: number; // 0–1 share of the window's sessions
+}
+
+/**
+ * Per-type scores and a one-line summary of the mix
+ */
+export interface ActivityTypeMix {
+  types: ActivityTypeScore[]; // Most active days first
+  summary: string; // e.g. "You ran 10 days and lifted 6 days", in options.locale
+  messages: ExplanationMessage[]; // Parts of `summary`, one per active type
+}
+
+/**
+ * Every explanation a score can produce (see explanations.ts)
+ */
+export type ExplanationKey =
+  | 'frequency'
+  | 'goal.weeksMet'
+  | 'goal.thisWeek'
+  | 'distribution.even'
+  | 'distribution.fair'
+  | 'distribution.gaps'
+  | 'rhythm.clockwork'
+  | 'rhythm.usual'
+  | 'streak.longest'
+  | 'streak.freeze'
+  | 'recency.today'
+  | 'recency.daysAgo'
+  | 'gap.longest'
+  | 'data.partial'
+  | 'effort.volume'
+  | 'effort.unrated'
+  | 'effort.intensity'
+  | 'effort.ignoredShort'
+  | 'effort.blend'
+  | 'suggestion.today'
+  | 'suggestion.tomorrow'
+  | 'suggestion.nextWeek'
+  | 'group.percentile'
+  | 'nudge.usualDay'
+  | 'nudge.sinceLast'
+  | 'trend.steady'
+  | 'trend.up'
+  | 'trend.down'
+  | 'typeMix.type'
+  | 'typeMix.untyped'
+  | 'typeMix.none'
+  | 'typeMix.list'
+  | 'typeMix.summary';
+
+/**
+ * How a client should style a bullet
+ */
+export type ExplanationTone = 'positive' | 'neutral' | 'warning';
+
+/**
+ * One explanation bullet, before rendering
+ */
+export interface ExplanationMessage {
+  key: ExplanationKey;
+  params: Record<string, string | number>;
+  tone: ExplanationTone;
+  component: keyof ScoreBreakdown | keyof EffortBreakdown | null; // Score part it explains
+}
+
+/**
+ * ICU-style message templates for one locale
+ */
+export type MessageBundle = Record<ExplanationKey, string>;
+
+/**
+ * Simulated next step behind a suggestion
+ * - 'train-today': one session today
+ * - 'train-tomorrow': one session tomorrow (scored tomorrow)
+ * - 'spread-next-week': evenly spaced sessions over the next 7 days
+ */
+export type SuggestionAction =
+  | 'train-today'
+  | 'train-tomorrow'
+  | 'spread-next-week';
+
+/**
+ * A ranked "how to raise your score" suggestion
+ */
+export interface ImprovementSuggestion {
+  action: SuggestionAction;
+  days: string[]; // YYYY-MM-DD days the action trains on
+  projectedScore: number; // Consistency score on the last of `days`
+  delta: number; // projectedScore - current score
+  text: string; // `message` rendered for options.locale
+  message: ExplanationMessage;
+}
+
+/**
+ * Effort scoring options (see effort.ts)
+ */
+export interface EffortOptions {
+  targetMinutesPerWeek?: number; // Full volume credit (default: 150)
+  blendWeight?: number; // 0–1 share of effort in the final score (default: 0)
+}
+
+/**
+ * Effort score parts
+ */
+export interface EffortBreakdown {
+  volumePoints: number; // 0–70, or 0–100 when no session is rated
+  intensityPoints: number; // 0–30 from average RPE of rated sessions
+}
+
+/**
+ * Derived facts behind the effort score
+ */
+export interface EffortMetadata {
+  countedSessions: number;
+  ignoredShortSessions: number; // Below minSessionDurationSec
+  totalMinutes: number;
+  targetMinutes: number; // targetMinutesPerWeek prorated to the window
+  ratedSessions: number; // Sessions with an intensity
+  averageIntensity: number | null; // Null when no session is rated
+}
+
+/**
+ * Effort score output, returned next to the consistency score
+ */
+export interface EffortScore {
+  score: number; // 0–100
+  explanations: string[];
+  messages: ExplanationMessage[];
+  breakdown: EffortBreakdown;
+  metadata: EffortMetadata;
+  blendWeight: number; // Share of this score in ConsistencyScore.score
+}
+
+/**
+ * User-defined weekly training target
+ */
+export interface ScoringGoal {
+  activeDaysPerWeek: number; // 1–7
+  weekStartsOn?: number; // 0 = Sunday … 6 = Saturday (default: 1, Monday)
+}
+
+/**
+ * Goal result for a single calendar week overlapping the window
+ */
+export interface GoalWeekResult {
+  weekStart: string; // YYYY-MM-DD
+  weekEnd: string; // YYYY-MM-DD
+  daysInWindow: number; // Days of this week inside the scoring window
+  activeDays: number;
+  target: number; // Prorated for the partial week at the window start
+  status: 'met' | 'missed' | 'in-progress';
+}
+
+/**
+ * Goal attainment across the scoring window
+ */
+export interface GoalProgress {
+  activeDaysPerWeek: number;
+  weekStartsOn: number;
+  attainment: number; // 0–1, replaces activeDays / windowDays in the base score
+  weeksMet: number;
+  weeksEvaluated: number; // Excludes the current week until it is met
+  weeks: GoalWeekResult[];
+}
+
+/**
+ * Maximum points per score component (must sum to 100)
+ */
+export interface ScoringWeights {
+  base: number;
+  distribution: number;
+  streak: number; // Also caps the streak bonus
+  recency: number;
+}
+
+/**
+ * Recency rule: last session within `maxDaysAgo` days earns `points`
+ */
+export interface RecencyBucket {
+  maxDaysAgo: number;
+  points: number;
+}
+
+/**
+ * Tunable scoring parameters (window length, weights, bonus rules)
+ */
+export interface ScoringConfig {
+  windowDays: number;
+  weights: ScoringWeights;
+  recencyBuckets: RecencyBucket[]; // Ascending by maxDaysAgo; first match wins
+  streakPointsPerDay: number;
+}
+
+/**
+ * Scoring options shared by every scoring entry point
+ */
+export interface ScoringOptions {
+  timezone?: string; // IANA timezone (e.g. "UTC", "America/New_York")
+  goal?: ScoringGoal; // Switches the base score to goal attainment
+  config?: ScoringConfig; // Defaults to DEFAULT_SCORING_CONFIG (28 days)
+  distributionModel?: DistributionModel; // Defaults to 'max-gap'
+  coverage?: DataCoverage; // From fetchSessionWindow; omitted = complete
+  minSessionDurationSec?: number; // Shorter sessions are ignored (default: 0)
+  activityTypes?: string[]; // Only score sessions of these types
+  groupByActivityType?: boolean; // Adds per-type scores (ConsistencyScore.typeMix)
+  locale?: string; // Language of `explanations` (default: "en")
+  streak?: StreakRules; // Rest days, freezes and grace for streaks
+  effort?: EffortOptions; // Adds an effort score (session-based entry points)
+  validation?: SessionValidationOptions; // Quarantine rules; calculateConsistencyScore also reports data quality
+  instrumentation?: Instrumentation; // Logs and metrics (default: no-op)
+}
+
+/**
+ * Tags attached to a metric (e.g. { operation: 'fetchSessionWindow' })
+ */
+export type MetricTags = Record<string, string>;
+
+/**
+ * Destination for counters, timings and value distributions
+ */
+export interface MetricsSink {
+  increment(name: string, value?: number, tags?: MetricTags): void;
+  timing(name: string, ms: number, tags?: MetricTags): void;
+  histogram(name: string, value: number, tags?: MetricTags): void;
+}
+
+/**
+ * Structured logger (message plus machine-readable fields)
+ */
+export interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+/**
+ * Logging and metrics hooks (see instrumentation.ts)
+ */
+export interface Instrumentation {
+  logger: Logger;
+  metrics: MetricsSink;
+}
+
+/**
+ * Why a raw session was quarantined (see validation.ts)
+ * - 'invalid-timestamp': not a valid Date
+ * - 'pre-epoch-timestamp': before 1970-01-01T00:00:00Z
+ * - 'invalid-timezone': its own timezone is not a known IANA zone
+ * - 'future-timestamp': on a local day after the reference day
+ * - 'absurd-duration': negative or longer than maxDurationSec
+ * - 'duplicate-id': same id as an earlier accepted session
+ */
+export type DataQualityIssue =
+  | 'invalid-timestamp'
+  | 'pre-epoch-timestamp'
+  | 'invalid-timezone'
+  | 'future-timestamp'
+  | 'absurd-duration'
+  | 'duplicate-id';
+
+/**
+ * Raw-session validation options
+ */
+export interface SessionValidationOptions {
+  strict?: boolean; // Throw SessionValidationError instead of quarantining
+  maxDurationSec?: number; // Longest plausible session (default: 24 hours)
+}
+
+/**
+ * Sessions affected by one data-quality issue
+ */
+export interface DataQualityIssueSummary {
+  count: number;
+  sessionIds: string[]; // Input order
+}
+
+/**
+ * What validation found in a session list
+ */
+export interface DataQualityReport {
+  received: number;
+  accepted: number;
+  quarantined: number;
+  issues: Record<DataQualityIssue, DataQualityIssueSummary>;
+}
+
+/**
+ * A session left out of scoring, with the first issue found
+ */
+export interface QuarantinedSession {
+  session: Session;
+  issue: DataQualityIssue;
+}
+
+/**
+ * Sessions split by validation, plus the report
+ */
+export interface SessionValidationResult {
+  sessions: Session[]; // Accepted, input order
+  quarantined: QuarantinedSession[];
+  report: DataQualityReport;
+}
+
+/**
+ * How much of the requested window a fetch actually covered
+ */
+export interface DataCoverage {
+  complete: boolean; // False when the read budget ran out first
+  reads: number; // Billed document reads spent
+}
+
+/**
+ * Input parameters for score calculation
+ */
+export interface ScoreInput extends ScoringOptions {
+  sessions: Session[];
+  referenceDate?: Date; // Defaults to "now"
+  trace?: boolean; // Attach a ScoreTrace to the result
+}
+
+/**
+ * Session as recorded in a ScoreTrace (timestamp as ISO 8601)
+ */
+export interface TracedSession extends Omit<Session, 'timestamp'> {
+  timestamp: string;
+}
+
+/**
+ * What scoring did with one session
+ * - 'counted': first session of its local day (makes the day active)
+ * - 'merged': another session on an already active day
+ * - 'filtered-type': excluded by `activityTypes`
+ * - 'quarantined': failed validation (see `issue`)
+ * - 'too-short': under `minSessionDurationSec`
+ */
+export type SessionTraceStatus =
+  | 'counted'
+  | 'merged'
+  | 'filtered-type'
+  | 'quarantined'
+  | 'too-short';
+
+export interface SessionTraceEntry {
+  id: string;
+  timezone: string; // Zone used to bucket it (session's own or the user's)
+  localDate: string | null; // YYYY-MM-DD in that zone (null if no valid timestamp)
+  inWindow: boolean;
+  status: SessionTraceStatus;
+  issue?: DataQualityIssue; // Only for 'quarantined'
+}
+
+/**
+ * Every intermediate step of one score, for audits and support tickets
+ *
+ * Plain JSON: `input` holds everything needed to replay the calculation
+ * (see replayScoreTrace), the rest records how the score was reached.
+ */
+export interface ScoreTrace {
+  version: string; // SCORING_VERSION that produced the score
+  input: {
+    sessions: TracedSession[];
+    referenceDate: string; // ISO 8601, resolved even if defaulted to "now"
+    options: ScoringOptions; // Config and streak rules resolved (defaults applied)
+  };
+  config: ScoringConfig; // Resolved config (defaults applied)
+  referenceDay: string;
+  windowStart: string;
+  sessions: SessionTraceEntry[]; // Input order
+  activeDays: ActiveDay[];
+  gaps: number[]; // Days between consecutive active days
+  streakWalk: StreakWalkDay[];
+  recency: {
+    daysSinceLastSession: number;
+    bucket: RecencyBucket | null; // First bucket matched, if any
+    points: number;
+  };
+  breakdown: ScoreBreakdown;
+  rawScore: number; // Sum of the breakdown, before rounding
+  clampedScore: number; // Rounded and clamped to 0–100
+  clamped: boolean; // True when clamping changed the rounded value
+  effortBlend: {
+    consistencyScore: number;
+    effortScore: number;
+    blendWeight: number;
+  } | null;
+  score: number; // Final score, as returned
+}
+
+/**
+ * Numeric score parts, without chart data or explanations
+ */
+export interface ScoreComponents {
+  score: number;
+  metadata: ConsistencyMetadata;
+  breakdown: ScoreBreakdown;
+  goal?: GoalProgress;
+}
+
+/**
+ * Score as of a single day (that day used as the reference date)
+ */
+export interface ScoreHistoryPoint {
+  date: string; // YYYY-MM-DD
+  score: number;
+  activeDays: number;
+  breakdown: ScoreBreakdown;
+}
+
+/**
+ * Input parameters for a daily score series
+ */
+export interface ScoreHistoryInput extends ScoringOptions {
+  sessions: Session[]; // Should reach windowDays - 1 days before startDate
+  startDate: Date;
+  endDate?: Date; // Defaults to "now"
+}
+
+/**
+ * Options for fetching a user's sessions from storage
+ */
+export interface SessionQueryOptions {
+  days?: number; // Lookback window (default: config.windowDays, i.e. 28)
+  limit?: number; // Max sessions returned (default: 200)
+  referenceDate?: Date; // Window end (default: "now")
+  timezone?: string; // Zone whose midnight starts the window (default: "UTC")
+  activityTypes?: string[]; // Only sessions of these types (max 30 in Firestore)
+  config?: ScoringConfig;
+  instrumentation?: Instrumentation; // Read counts and latency (default: no-op)
+}
+
+/**
+ * Options for a paginated, budgeted window fetch
+ */
+export interface SessionWindowQueryOptions
+  extends Omit<SessionQueryOptions, 'limit'> {
+  pageSize?: number; // Documents per query (default: 200)
+  maxReads?: number; // Hard read budget across all pages (default: 1000)
+}
+
+/**
+ * Retry policy for transient storage errors
+ */
+export interface RetryOptions {
+  maxAttempts?: number; // Including the first try (default: 3)
+  baseDelayMs?: number; // First backoff; doubles per retry, jittered (default: 200)
+}
+
+/**
+ * Options for fetching many users' sessions
+ */
+export interface BatchFetchOptions extends SessionQueryOptions {
+  concurrency?: number; // Users fetched at once (default: 10)
+  maxReads?: number; // Read budget across all users (default: unlimited)
+  retry?: RetryOptions;
+}
+
+/**
+ * Outcome for one user in a batch fetch
+ * - 'ok': every session in the window
+ * - 'truncated': the window holds more than `limit` sessions; the newest
+ *   `limit` are returned
+ * - 'failed': no usable data (see `error`); never scored as inactivity
+ */
+export type BatchFetchStatus = 'ok' | 'truncated' | 'failed';
+
+export interface BatchUserResult {
+  status: BatchFetchStatus;
+  sessions: Session[]; // Newest first; empty when failed
+  reads: number;
+  attempts: number; // 0 if never tried (read budget spent)
+  error?: Error; // Only for 'failed'
+}
+
+/**
+ * Per-user outcomes of a batch fetch, plus total reads spent
+ */
+export interface BatchFetchResult {
+  users: Map<string, BatchUserResult>; // One entry per distinct user ID
+  reads: number;
+}
+
+/**
+ * Sessions from a window fetch plus how much of the window they cover
+ */
+export interface SessionFetchResult extends DataCoverage {
+  sessions: Session[]; // Newest first
+}
+
+/**
+ * Options for scoring a user straight from storage
+ */
+export interface UserScoreOptions extends ScoringOptions {
+  referenceDate?: Date; // Defaults to "now"
+  pageSize?: number;
+  maxReads?: number;
+}
+
+/**
+ * Bucket of one cached session, kept so writes and deletes are idempotent
+ */
+export interface CachedSessionEntry {
+  timestamp: string; // ISO 8601, kept so days can be rebucketed on a timezone change
+  durationSec: number;
+  timezone?: string; // Session's own zone; never rebucketed
+}
+
+/**
+ * Persisted per-user aggregate (users/{userId}/consistency/current)
+ */
+export interface ScoreCacheDocument {
+  userId: string;
+  timezone: string;
+  windowDays: number;
+  days: Record<string, ActiveDay>; // Keyed by local date, pruned to the window
+  sessions: Record<string, CachedSessionEntry>; // Keyed by session ID
+  referenceDay: string; // Local day `score` was computed for
+  optionsKey: string; // Config and options the document was built with
+  score: ConsistencyScore;
+}
+
+/**
+ * Options for cache updates and reads (use the same options for both)
+ */
+export interface ScoreCacheOptions extends ScoringOptions {
+  referenceDate?: Date; // Defaults to "now"
+}
+
+/**
+ * One user in a cohort: raw sessions to score, or an already computed
+ * (e.g. cached) score
+ */
+export interface CohortMember {
+  userId: string;
+  sessions?: Session[]; // Scored with the cohort options
+  score?: ConsistencyScore; // Used as is when present
+  timezone?: string; // Overrides options.timezone when scoring sessions
+  attributes?: Record<string, string>; // Segment keys (e.g. signupMonth: "2024-05")
+}
+
+/**
+ * Named score range; a band runs from `min` up to the next band's `min`
+ */
+export interface ScoreBand {
+  label: string;
+  min: number;
+}
+
+/**
+ * Options for cohort analytics
+ */
+export interface CohortOptions extends ScoringOptions {
+  referenceDate?: Date; // Defaults to "now" (sessions only)
+  histogramBucketSize?: number; // Score points per bucket (default: 10)
+  percentiles?: number[]; // 0–100 (default: 10, 25, 50, 75, 90)
+  bands?: ScoreBand[]; // Ascending, first at 0 (default: DEFAULT_SCORE_BANDS)
+  segmentBy?: string[]; // Attribute keys to compare segments by
+}
+
+/**
+ * Scores in [min, max) (the last bucket includes 100)
+ */
+export interface HistogramBucket {
+  min: number;
+  max: number;
+  count: number;
+}
+
+/**
+ * Users in one score band
+ */
+export interface BandShare {
+  label: string;
+  min: number;
+  max: number; // Exclusive, except 100 for the top band
+  count: number;
+  share: number; // 0–1 of scored users
+}
+
+/**
+ * Score statistics for a group of users (null when the group is empty)
+ */
+export interface ScoreDistribution {
+  count: number;
+  mean: number | null;
+  percentiles: Record<string, number | null>; // Keyed "p50", "p90", …
+  histogram: HistogramBucket[];
+  components: ScoreBreakdown | null; // Mean of each breakdown component
+  bands: BandShare[];
+}
+
+/**
+ * One attribute value's distribution, compared with the whole cohort
+ */
+export interface SegmentComparison extends ScoreDistribution {
+  value: string; // UNKNOWN_SEGMENT when a member lacks the attribute
+  meanDelta: number | null; // Segment mean - cohort mean
+}
+
+/**
+ * Cohort-wide distribution plus segment comparisons per attribute
+ */
+export interface CohortReport extends ScoreDistribution {
+  skippedUserIds: string[]; // Members with neither sessions nor a score
+  segments: Record<string, SegmentComparison[]>; // Keyed by attribute, values ascending
+}
+
+/**
+ * Who sees a member on a group leaderboard
+ * - 'visible': ranked with their name
+ * - 'anonymous': ranked without user ID or name (they still see themselves)
+ * - 'hidden': not ranked and not counted in percentiles (the default)
+ */
+export type LeaderboardVisibility = 'visible' | 'anonymous' | 'hidden';
+
+export interface GroupMember {
+  userId: string;
+  displayName?: string;
+  timezone?: string; // Defaults to the zone stored in the user's score cache
+  visibility?: LeaderboardVisibility; // Default: 'hidden' (leaderboards are opt-in)
+}
+
+/**
+ * A private team or coaching group
+ */
+export interface Group {
+  id: string;
+  members: GroupMember[];
+}
+
+/**
+ * Options for building a group leaderboard
+ */
+export interface LeaderboardOptions extends ScoringOptions {
+  referenceDate?: Date; // Defaults to "now"
+  viewerId?: string; // Member the leaderboard is rendered for
+  minPercentileGroupSize?: number; // Fewer ranked members = no percentiles (default: 5)
+}
+
+/**
+ * One ranked member as seen by the viewer
+ */
+export interface LeaderboardEntry {
+  rank: number; // 1-based; fully tied members share a rank
+  userId: string | null; // Null for anonymous members (except the viewer)
+  displayName: string | null;
+  score: number;
+  isViewer: boolean;
+}
+
+/**
+ * Viewer's standing within the group
+ */
+export interface ViewerStanding {
+  rank: number;
+  percentile: number | null; // % of other ranked members with a lower score
+  message: ExplanationMessage | null; // 'group.percentile', when percentile is set
+  text: string | null; // `message` rendered for options.locale
+}
+
+/**
+ * Ranked, privacy-filtered leaderboard for one group
+ */
+export interface Leaderboard {
+  groupId: string;
+  entries: LeaderboardEntry[]; // Best first
+  rankedMembers: number;
+  viewer: ViewerStanding | null; // Null if the viewer is hidden or unscored
+}
+
+/**
+ * What achievement definitions are evaluated against
+ */
+export interface AchievementContext {
+  score: ConsistencyScore; // Current score; its last chartData day is "today"
+  history?: ScoreHistoryPoint[]; // Daily scores, oldest first (month milestones)
+  lastActiveBeforeWindow?: string; // YYYY-MM-DD (comebacks after long lapses)
+}
+
+/**
+ * A definition's verdict when the milestone is reached
+ */
+export interface AchievementUnlock {
+  achievedOn: string; // YYYY-MM-DD the milestone was reached
+  details?: Record<string, number | string>;
+}
+
+/**
+ * One milestone (registered by ID, see DEFAULT_ACHIEVEMENTS)
+ */
+export interface AchievementDefinition {
+  description: string;
+  evaluate(context: AchievementContext): AchievementUnlock | null;
+}
+
+/**
+ * Durable record of a granted milestone
+ */
+export interface AchievementAward {
+  achievementId: string;
+  achievedOn: string; // YYYY-MM-DD
+  awardedAt: string; // ISO timestamp of the evaluation that granted it
+  details: Record<string, number | string>;
+}
+
+/**
+ * Award records for one user (users/{userId}/consistency/achievements)
+ */
+export interface AchievementDocument {
+  userId: string;
+  awards: Record<string, AchievementAward>; // Keyed by achievement ID
+}
+
+/**
+ * Options for awarding achievements
+ */
+export interface AchievementOptions {
+  definitions?: Record<string, AchievementDefinition>; // Default: DEFAULT_ACHIEVEMENTS
+  awardedAt?: Date; // Defaults to "now"
+}
+
+/**
+ * Outcome of one award pass
+ */
+export interface AchievementResult {
+  newlyAwarded: AchievementAward[]; // Granted by this call only
+  awards: AchievementAward[]; // Every award the user holds, oldest first
+}
+
+/**
+ * Whether the current gap is abnormally long for this user
+ * - 'on-track': within their usual gaps
+ * - 'lapsing': longer than minLapseDays and than typicalGap + stdDevs × σ
+ * - 'insufficient-history': too few gaps in the window to know what's usual
+ */
+export type LapseStatus = 'on-track' | 'lapsing' | 'insufficient-history';
+
+/**
+ * Lapse assessment from score metadata
+ */
+export interface LapseRisk {
+  status: LapseStatus;
+  daysSinceLastSession: number;
+  typicalGap: number | null; // averageGap; null with insufficient history
+  expectedMaxGap: number | null; // typicalGap + stdDevs × σ
+  usualWeekdays: number[]; // From the detected rhythm (0 = Sunday; [] if none)
+}
+
+/**
+ * Thresholds for lapse detection
+ */
+export interface LapseRiskOptions {
+  minGaps?: number; // Gaps needed in the window before flagging (default: 3)
+  stdDevs?: number; // Tolerance above the typical gap, in σ (default: 2)
+  minLapseDays?: number; // Never flag gaps shorter than this (default: 3)
+}
+
+/**
+ * Local hours nudges must not be sent in, from `start` up to `end`
+ * (default 21 → 8 wraps midnight: nudges go out from 08:00 to 20:59;
+ * 13 → 15 keeps the early afternoon free)
+ */
+export interface QuietHours {
+  start: number; // 0–24
+  end: number; // 0–24, different from `start`
+}
+
+/**
+ * When and how often a user may be nudged
+ */
+export interface NudgePolicy extends LapseRiskOptions {
+  quietHours?: QuietHours;
+  maxNudgesPerWeek?: number; // In any rolling 7 days (default: 2)
+  minHoursBetweenNudges?: number; // Default: 48
+  horizonDays?: number; // Latest day to schedule for, from today (default: 7)
+}
+
+/**
+ * Input for a single nudge decision
+ */
+export interface NudgeInput {
+  score: ConsistencyScore; // Over the gap lookback (only metadata is used)
+  referenceDate?: Date; // "Now" (default: the current time)
+  timezone?: string; // Zone for quiet hours and days (default: "UTC")
+  recentNudges?: Date[]; // Nudges already sent or scheduled
+  policy?: NudgePolicy;
+  locale?: string;
+}
+
+/**
+ * Outcome of a nudge decision
+ * - 'scheduled': send at `sendAt`
+ * - 'not-lapsing' / 'insufficient-history': see LapseStatus
+ * - 'rate-limited': lapsing, but no slot within the horizon respects the limits
+ */
+export type NudgeDecisionReason =
+  | 'scheduled'
+  | 'not-lapsing'
+  | 'insufficient-history'
+  | 'rate-limited';
+
+export interface NudgeDecision {
+  risk: LapseRisk;
+  reason: NudgeDecisionReason;
+  sendAt: Date | null; // Set only when scheduled
+  message: ExplanationMessage | null; // 'nudge.usualDay' or 'nudge.sinceLast'
+  text: string | null; // `message` rendered for the locale
+}
+
+/**
+ * A user to scan for lapses
+ */
+export interface NudgeCandidate {
+  userId: string;
+  timezone?: string; // Default: the user profile, then UTC
+  locale?: string;
+  recentNudges?: Date[];
+}
+
+/**
+ * Options for a lapse scan over many users
+ */
+export interface LapseScanOptions extends NudgePolicy {
+  referenceDate?: Date; // Defaults to "now"
+  config?: ScoringConfig;
+  lookbackDays?: number; // History gaps are measured over (default: 2 × windowDays)
+  concurrency?: number; // Users checked at once (default: 10)
+  retry?: RetryOptions; // For the lookback fetches
+}
+
+/**
+ * Outcome for one scanned user
+ * - 'recent': trained within minLapseDays (lookback not fetched)
+ * - 'no-sessions': no session on record
+ * - 'evaluated': lookback fetched and `decision` made
+ * - 'failed': see `error`
+ */
+export type LapseScanStatus = 'recent' | 'no-sessions' | 'evaluated' | 'failed';
+
+export interface LapseScanEntry {
+  status: LapseScanStatus;
+  decision: NudgeDecision | null; // Only for 'evaluated'
+  error?: Error; // Only for 'failed'
+}
+
+/**
+ * Per-user outcomes of a lapse scan
+ */
+export interface LapseScanResult {
+  users: Map<string, LapseScanEntry>; // One entry per distinct user ID
+}
+
+/**
+ * Calendar intensity shade: 0 = no activity, 1–4 = increasing activity
+ */
+export type IntensityLevel = 0 | 1 | 2 | 3 | 4;
+
+/**
+ * How intensity levels are computed
+ * - metric: what a day is measured by (default: 'sessionCount')
+ * - thresholds: values reaching levels 2, 3 and 4, ascending; any
+ *   activity is at least level 1 (defaults: 2/3/4 sessions or
+ *   20/45/90 minutes)
+ */
+export interface IntensityOptions {
+  metric?: 'sessionCount' | 'totalDurationSec';
+  thresholds?: [number, number, number];
+}
+
+/**
+ * Input shared by the calendar chart builders
+ */
+export interface CalendarChartInput {
+  sessions: Session[];
+  referenceDate?: Date; // "Today" (default: now)
+  timezone?: string; // Zone days are bucketed in (default: "UTC")
+  weekStartsOn?: number; // 0 = Sunday … 6 (default: 1, Monday)
+  intensity?: IntensityOptions;
+  minSessionDurationSec?: number; // Shorter sessions are ignored (default: 0)
+  activityTypes?: string[]; // Only chart sessions of these types
+  validation?: SessionValidationOptions; // Quarantine rules
+}
+
+/**
+ * One cell of a calendar chart
+ */
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0 = Sunday … 6
+  sessionCount: number;
+  totalDurationSec: number;
+  level: IntensityLevel;
+  isPadding: boolean; // Outside the month being shown (month grid only)
+  isFuture: boolean; // After the reference day
+}
+
+/**
+ * A column of the year heatmap, or a row of the month grid
+ */
+export interface CalendarWeek {
+  weekStart: string; // YYYY-MM-DD
+  days: CalendarDay[]; // Always 7, from weekStart
+}
+
+/**
+ * GitHub-style heatmap: one column per week, ending with the current week
+ */
+export interface YearHeatmap {
+  startDate: string; // First day of the first week
+  endDate: string; // Last day of the current week
+  weeks: CalendarWeek[];
+  monthStarts: { month: string; weekIndex: number }[]; // Column holding each month's 1st
+  activeDays: number; // Up to the reference day
+  totalSessions: number;
+}
+
+/**
+ * One calendar month laid out in full weeks
+ */
+export interface MonthGrid {
+  month: string; // YYYY-MM
+  weeks: CalendarWeek[]; // Days of adjacent months have isPadding set
+  activeDays: number; // Within the month
+  totalSessions: number;
+}
+
+/**
+ * Activity totals for one calendar week
+ */
+export interface WeeklyRollup {
+  weekStart: string; // YYYY-MM-DD
+  weekEnd: string;
+  activeDays: number;
+  sessionCount: number;
+  totalDurationSec: number;
+  isPartial: boolean; // The current week, still in progress
+}
+
+/**
+ * One day of a score export (CSV and JSON Lines share this schema)
+ */
+export interface ExportDayRow {
+  date: string; // YYYY-MM-DD in the user's timezone
+  active: boolean;
+  sessionCount: number;
+  totalDurationSec: number;
+  score: number; // Score as of that day (see calculateScoreHistory)
+}
+
+/**
+ * Options for the iCalendar export
+ */
+export interface IcsExportOptions {
+  calendarName?: string; // Default: "Training consistency"
+  minStreakDays?: number; // Shorter streaks get no streak event (default: 3)
+  generatedAt?: Date; // DTSTAMP of every event (default: now)
+  streak?: StreakRules; // Same rules as the score, so streaks match it
+}
+
+/**
+ * Streak from its first to its last active day (see findStreaks)
+ */
+export interface ActivityStreak {
+  start: string; // YYYY-MM-DD
+  end: string; // Inclusive
+  days: number; // Active days; rest and frozen days in between don't count
+}
+
+/**
+ * Active days and streaks read back from an iCalendar export
+ */
+export interface IcsImport {
+  activeDays: ActiveDay[]; // Oldest first
+  streaks: ActivityStreak[];
+}
+
+/**
+ * Direction of change between two consecutive windows
+ */
+export type TrendDirection = 'improving' | 'steady' | 'declining';
+
+/**
+ * Current window compared against the window immediately before it
+ */
+export interface ScoreTrend {
+  current: ConsistencyScore;
+  previous: ConsistencyScore;
+  delta: number; // current.score - previous.score
+  direction: TrendDirection;
+  componentDeltas: ScoreBreakdown; // current - previous, per component
+  explanation: string; // `message` rendered for options.locale
+  message: ExplanationMessage;
+}
+
+/**
+ * Input parameters for trend calculation
+ */
+export interface TrendInput extends ScoreInput {
+  steadyThreshold?: number; // |delta| at or below this is "steady" (default: 3)
+}
@@ -0,0 +1,188 @@
+/**
+ * Raw-session validation and data-quality report
+ *
+ * Runs before bucketing so bad records can't throw deep inside Intl or
+ * silently inflate a score. Each session is checked in order (timestamp,
+ * then its own timezone, then duration, then id) and quarantined for the
+ * first issue found; the first valid session with a given id wins. Only
+ * the user's timezone is trusted to throw InvalidTimezoneError.
+ *
+ * Missing or non-numeric durations are not an issue: they still count as
+ * activity (see countsAsActivity).
+ */
+
+import {
+  DataQualityIssue,
+  DataQualityReport,
+  QuarantinedSession,
+  ScoringOptions,
+  Session,
+  SessionValidationOptions,
+  SessionValidationResult,
+} from './types';
+import { assertValidTimezone, toLocalDateString } from './dates';
+import { filterSessionsByType } from './activities';
+import {
+  InvalidTimezoneError,
+  ScoringConfigError,
+  SessionValidationError,
+} from './errors';
+
+export const DEFAULT_MAX_SESSION_DURATION_SEC = 24 * 60 * 60;
+
+// Report order (also the order issues are checked in)
+const DATA_QUALITY_ISSUES: DataQualityIssue[] = [
+  'invalid-timestamp',
+  'pre-epoch-timestamp',
+  'invalid-timezone',
+  'future-timestamp',
+  'absurd-duration',
+  'duplicate-id',
+];
+
+/**
+ * Split sessions into accepted and quarantined ones
+ *
+ * A session is in the future when its local day (in its own timezone, or
+ * `timezone`) is after referenceDay; later today is fine.
+ *
+ * @throws SessionValidationError in strict mode if any session fails
+ * @throws ScoringConfigError if maxDurationSec is not a positive number
+ */
+export function validateSessions(
+  sessions: Session[],
+  referenceDay: string,
+  timezone: string,
+  options: SessionValidationOptions = {}
+): SessionValidationResult {
+  const { strict = false, maxDurationSec = DEFAULT_MAX_SESSION_DURATION_SEC } =
+    options;
+
+  if (!Number.isFinite(maxDurationSec) || maxDurationSec <= 0) {
+    throw new ScoringConfigError(
+      `maxDurationSec must be a positive number (got ${maxDurationSec})`
+    );
+  }
+
+  const accepted: Session[] = [];
+  const quarantined: QuarantinedSession[] = [];
+  const seenIds = new Set<string>();
+
+  for (const session of sessions) {
+    const issue = findIssue(session, referenceDay, timezone, maxDurationSec);
+
+    if (issue) {
+      quarantined.push({ session, issue });
+    } else if (seenIds.has(session.id)) {
+      quarantined.push({ session, issue: 'duplicate-id' });
+    } else {
+      seenIds.add(session.id);
+      accepted.push(session);
+    }
+  }
+
+  const report = buildReport(sessions.length, accepted.length, quarantined);
+
+  if (strict && quarantined.length > 0) {
+    throw new SessionValidationError(report);
+  }
+
+  return { sessions: accepted, quarantined, report };
+}
+
+/**
+ * Sessions an entry point may bucket: the activityTypes filter, then
+ * validateSessions against referenceDay
+ *
+ * Every entry point that takes raw sessions runs these two steps, so
+ * they all score the same records as calculateConsistencyScore.
+ *
+ * @throws SessionValidationError in strict mode if any session fails
+ */
+export function acceptSessions(
+  sessions: Session[],
+  referenceDay: string,
+  timezone: string,
+  options: Pick<ScoringOptions, 'activityTypes' | 'validation'> = {}
+): Session[] {
+  return validateSessions(
+    filterSessionsByType(sessions, options.activityTypes),
+    referenceDay,
+    timezone,
+    options.validation
+  ).sessions;
+}
+
+/**
+ * True for a Date holding a real instant
+ */
+export function isValidTimestamp(timestamp: unknown): timestamp is Date {
+  return timestamp instanceof Date && !Number.isNaN(timestamp.getTime());
+}
+
+/**
+ * True for a known IANA zone
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    assertValidTimezone(timezone);
+    return true;
+  } catch (error) {
+    if (error instanceof InvalidTimezoneError) return false;
+    throw error;
+  }
+}
+
+/**
+ * First timestamp, timezone or duration issue of one session, if any
+ */
+function findIssue(
+  session: Session,
+  referenceDay: string,
+  timezone: string,
+  maxDurationSec: number
+): DataQualityIssue | undefined {
+  const { timestamp, durationSec } = session;
+
+  if (!isValidTimestamp(timestamp)) return 'invalid-timestamp';
+
+  if (timestamp.getTime() < 0) return 'pre-epoch-timestamp';
+
+  // A bad zone on stored data quarantines the session, not the whole score
+  if (session.timezone !== undefined && !isValidTimezone(session.timezone)) {
+    return 'invalid-timezone';
+  }
+
+  const localDate = toLocalDateString(timestamp, session.timezone ?? timezone);
+  if (localDate > referenceDay) return 'future-timestamp';
+
+  if (
+    typeof durationSec === 'number' &&
+    Number.isFinite(durationSec) &&
+    (durationSec < 0 || durationSec > maxDurationSec)
+  ) {
+    return 'absurd-duration';
+  }
+
+  return undefined;
+}
+
+/**
+ * Counts and offending ids per issue (every issue present, even at 0)
+ */
+function buildReport(
+  received: number,
+  accepted: number,
+  quarantined: QuarantinedSession[]
+): DataQualityReport {
+  const issues = Object.fromEntries(
+    DATA_QUALITY_ISSUES.map(issue => {
+      const sessionIds = quarantined
+        .filter(q => q.issue === issue)
+        .map(q => q.session.id);
+      return [issue, { count: sessionIds.length, sessionIds }];
+    })
+  ) as DataQualityReport['issues'];
+
+  return { received, accepted, quarantined: quarantined.length, issues };
+}